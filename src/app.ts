@@ -2,37 +2,28 @@ import express from 'express';
 import cors from 'cors';
 import { chatRoutes } from './routes/chat.routes';
 import { knowledgeRoutes } from './routes/knowledge.routes';
-import bodyParser from 'body-parser';
+import { conversationRoutes } from './routes/conversation.routes';
+import { factRoutes } from './routes/fact.routes';
+import { patternRoutes } from './routes/pattern.routes';
+import { feedbackRoutes } from './routes/feedback.routes';
+import { apiKeyRoutes } from './routes/api-key.routes';
+import { authenticate } from './middlewares/auth.middleware';
+import { parseBody } from './middlewares/body.middleware';
+import { errorHandler } from './middlewares/error.middleware';
+import { AuthContext } from './services/auth.service';
 
 declare global {
   namespace Express {
     interface Request {
       rawBody?: Buffer;
+      // Tenant e papel da chave de API que fez a requisição
+      auth?: AuthContext;
     }
   }
 }
 
 const app = express();
 
-// Aumentar significativamente os limites
-const maxSize = '500mb';
-
-// Configurar body-parser
-app.use(bodyParser.json({
-  limit: maxSize
-}));
-
-app.use(bodyParser.urlencoded({
-  limit: maxSize,
-  extended: true,
-  parameterLimit: 50000
-}));
-
-app.use(bodyParser.raw({
-  limit: maxSize,
-  type: 'application/octet-stream'
-}));
-
 // Configurar CORS
 app.use(cors());
 
@@ -42,17 +33,22 @@ app.use((req, res, next) => {
   next();
 });
 
+// Autenticação por chave de API em todas as rotas
+app.use('/api', authenticate);
+
+// Corpo das requisições, lido só depois da autenticação e com limite de tamanho por rota (config.http)
+app.use(parseBody);
+
 // Rotas
 app.use('/api/chat', chatRoutes);
 app.use('/api/knowledge', knowledgeRoutes);
+app.use('/api/conversations', conversationRoutes);
+app.use('/api/facts', factRoutes);
+app.use('/api/patterns', patternRoutes);
+app.use('/api/feedback', feedbackRoutes);
+app.use('/api/keys', apiKeyRoutes);
 
 // Middleware de erro
-app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error(err.stack);
-  res.status(500).json({ 
-    error: 'Erro interno do servidor',
-    details: err.message 
-  });
-});
+app.use(errorHandler);
 
 export { app }; 
\ No newline at end of file
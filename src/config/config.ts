@@ -2,6 +2,20 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+// Número vindo do ambiente; o padrão vale quando a variável não foi definida,
+// não é numérica ou está fora do intervalo aceito pela configuração (ex.:
+// intervalos e janelas precisam ser positivos). O 0 vale onde o mínimo permite.
+const numberEnv = (name: string, fallback: number, min = -Infinity, max = Infinity) => {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') return fallback;
+  const number = Number(value);
+  if (Number.isNaN(number) || number < min || number > max) {
+    console.error(`⚠️ ${name}=${value} inválido (aceito de ${min} a ${max}); usando ${fallback}`);
+    return fallback;
+  }
+  return number;
+};
+
 export const config = {
     mongodb: {
       url: process.env.MONGODB_URI || 'mongodb://localhost:27017/ai-chat',
@@ -12,5 +26,153 @@ export const config = {
     },
     server: {
       port: process.env.PORT || 3001
+    },
+    http: {
+      // Limite padrão do corpo das requisições
+      bodyLimit: process.env.HTTP_BODY_LIMIT || '100kb',
+      // Limites por rota (prefixo do caminho); o prefixo mais específico vence
+      routeBodyLimits: {
+        '/api/chat': process.env.HTTP_CHAT_BODY_LIMIT || '16kb',
+        '/api/knowledge/import': process.env.HTTP_IMPORT_BODY_LIMIT || '50mb'
+      } as Record<string, string>
+    },
+    rateLimit: {
+      enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+      // Requisições permitidas por cliente (chave de API ou IP) a cada janela
+      chat: {
+        windowMs: numberEnv('RATE_LIMIT_CHAT_WINDOW', 60 * 1000, 1000),
+        max: numberEnv('RATE_LIMIT_CHAT_MAX', 30, 1)
+      },
+      learn: {
+        windowMs: numberEnv('RATE_LIMIT_LEARN_WINDOW', 60 * 1000, 1000),
+        max: numberEnv('RATE_LIMIT_LEARN_MAX', 5, 1)
+      },
+      upload: {
+        windowMs: numberEnv('RATE_LIMIT_UPLOAD_WINDOW', 60 * 1000, 1000),
+        max: numberEnv('RATE_LIMIT_UPLOAD_MAX', 5, 1)
+      }
+    },
+    conversation: {
+      // Quantidade de turnos anteriores usados para resolver perguntas de continuação
+      historyTurns: numberEnv('CONVERSATION_HISTORY_TURNS', 10, 0)
+    },
+    intents: {
+      // Handlers do chat (ex.: "greeting,calculation"); se preenchida, só estes ficam ativos
+      enabled: (process.env.INTENTS_ENABLED || '').split(',').map(name => name.trim()).filter(Boolean),
+      // Handlers desligados nesta instalação
+      disabled: (process.env.INTENTS_DISABLED || '').split(',').map(name => name.trim()).filter(Boolean)
+    },
+    datetime: {
+      // Fuso (IANA) usado para "hoje", "agora" e nas contas com datas
+      timezone: process.env.TIMEZONE || 'America/Sao_Paulo'
+    },
+    retrieval: {
+      // Dimensão dos embeddings locais (feature hashing)
+      embeddingDimensions: numberEnv('RETRIEVAL_EMBEDDING_DIMENSIONS', 256, 1),
+      // Peso do BM25 na pontuação híbrida; o restante vai para a similaridade de cosseno
+      bm25Weight: numberEnv('RETRIEVAL_BM25_WEIGHT', 0.6, 0, 1),
+      minScore: numberEnv('RETRIEVAL_MIN_SCORE', 0.1, 0)
+    },
+    answers: {
+      // Frases consecutivas devolvidas como resposta extraída
+      maxSentences: numberEnv('ANSWER_MAX_SENTENCES', 3, 1),
+      // Frases vizinhas entram na resposta se pontuarem ao menos esta fração da melhor
+      neighborRatio: numberEnv('ANSWER_NEIGHBOR_RATIO', 0.5, 0, 1),
+      // Tamanho máximo, em caracteres, do trecho destacado
+      snippetLength: numberEnv('ANSWER_SNIPPET_LENGTH', 300, 1)
+    },
+    upload: {
+      maxFileSize: numberEnv('UPLOAD_MAX_FILE_SIZE', 50 * 1024 * 1024, 1),
+      maxFiles: numberEnv('UPLOAD_MAX_FILES', 20, 1)
+    },
+    jobs: {
+      pollInterval: numberEnv('JOBS_POLL_INTERVAL', 2000, 100),
+      maxAttempts: numberEnv('JOBS_MAX_ATTEMPTS', 3, 1),
+      // Espera antes da primeira nova tentativa; dobra a cada falha
+      retryBaseDelay: numberEnv('JOBS_RETRY_BASE_DELAY', 5000, 0),
+      // Jobs travados há mais tempo que isso são retomados (ex.: após reinício)
+      lockTimeout: numberEnv('JOBS_LOCK_TIMEOUT', 5 * 60 * 1000, 1000)
+    },
+    language: {
+      default: process.env.DEFAULT_LANGUAGE || 'pt',
+      // Idiomas considerados na detecção e na busca entre idiomas (ISO 639-1)
+      supported: (process.env.SUPPORTED_LANGUAGES || 'pt,en,es').split(',').map(code => code.trim())
+    },
+    translation: {
+      // google | dictionary | identity
+      provider: process.env.TRANSLATION_PROVIDER || 'google'
+    },
+    feedback: {
+      // Quanto cada avaliação sobe ou desce a confiança (limitada entre 0 e 1)
+      confidenceStep: numberEnv('FEEDBACK_CONFIDENCE_STEP', 0.1, 0, 1),
+      // Confiança assumida para entradas que nunca receberam uma
+      defaultConfidence: numberEnv('FEEDBACK_DEFAULT_CONFIDENCE', 0.8, 0, 1),
+      // Avaliações negativas a partir das quais a entrada é marcada para revisão
+      flagThreshold: numberEnv('FEEDBACK_FLAG_THRESHOLD', 3, 1),
+      // Peso da confiança no ranking da busca, entre 0 e 1
+      rankingWeight: numberEnv('FEEDBACK_RANKING_WEIGHT', 0.5, 0, 1)
+    },
+    stream: {
+      // Intervalo dos comentários de heartbeat enviados pelo SSE
+      heartbeatInterval: numberEnv('STREAM_HEARTBEAT_INTERVAL', 15000, 1000),
+      // Tamanho máximo, em caracteres, de cada pedaço da resposta
+      chunkSize: numberEnv('STREAM_CHUNK_SIZE', 80, 1),
+      // Pausa entre pedaços, em ms
+      chunkDelay: numberEnv('STREAM_CHUNK_DELAY', 0, 0)
+    },
+    fetch: {
+      timeout: numberEnv('FETCH_TIMEOUT', 15000, 1),
+      maxSize: numberEnv('FETCH_MAX_SIZE', 20 * 1024 * 1024, 1),
+      maxRedirects: numberEnv('FETCH_MAX_REDIRECTS', 5, 0),
+      userAgent: process.env.FETCH_USER_AGENT || 'CordovaBot/1.0',
+      // Se preenchida, só estes domínios (e seus subdomínios) podem ser baixados
+      allowedDomains: (process.env.FETCH_ALLOWED_DOMAINS || '')
+        .split(',')
+        .map(domain => domain.trim().toLowerCase())
+        .filter(Boolean),
+      // Libera endereços privados e de loopback (apenas para desenvolvimento)
+      allowPrivateNetworks: process.env.FETCH_ALLOW_PRIVATE_NETWORKS === 'true'
+    },
+    crawler: {
+      maxDepth: numberEnv('CRAWLER_MAX_DEPTH', 2, 0),
+      maxPages: numberEnv('CRAWLER_MAX_PAGES', 50, 1),
+      // Limites máximos aceitos nas opções de cada rastreamento
+      maxDepthLimit: numberEnv('CRAWLER_MAX_DEPTH_LIMIT', 5, 0),
+      maxPagesLimit: numberEnv('CRAWLER_MAX_PAGES_LIMIT', 500, 1),
+      maxSitemaps: numberEnv('CRAWLER_MAX_SITEMAPS', 20, 0),
+      requestTimeout: numberEnv('CRAWLER_REQUEST_TIMEOUT', 15000, 1),
+      renderTimeout: numberEnv('CRAWLER_RENDER_TIMEOUT', 30000, 1),
+      maxResponseSize: numberEnv('CRAWLER_MAX_RESPONSE_SIZE', 20 * 1024 * 1024, 1),
+      userAgent: process.env.CRAWLER_USER_AGENT || 'CordovaBot/1.0'
+    },
+    search: {
+      // bing | searxng | mock | none
+      provider: process.env.SEARCH_PROVIDER || (process.env.BING_API_KEY ? 'bing' : 'none'),
+      bingApiKey: process.env.BING_API_KEY || '',
+      market: process.env.SEARCH_MARKET || 'pt-BR',
+      searxngUrl: process.env.SEARXNG_URL || 'http://localhost:8080',
+      maxResults: numberEnv('SEARCH_MAX_RESULTS', 10, 1),
+      timeout: numberEnv('SEARCH_TIMEOUT', 10000, 1),
+      // Confiança inicial dos trechos aprendidos em buscas
+      learnedConfidence: numberEnv('SEARCH_LEARNED_CONFIDENCE', 0.5, 0, 1),
+      // Busca e aprende na web quando o chat não encontra resposta
+      fallback: process.env.SEARCH_FALLBACK !== 'false'
+    },
+    dedup: {
+      // Similaridade (Jaccard estimada, entre 0 e 1) a partir da qual duas entradas são quase-duplicatas
+      nearThreshold: numberEnv('DEDUP_NEAR_THRESHOLD', 0.8, 0, 1),
+      // Textos com menos palavras que isso só são comparados por igualdade
+      minTokens: numberEnv('DEDUP_MIN_TOKENS', 8, 1),
+      // Quantidade máxima de grupos no relatório de duplicatas
+      reportLimit: numberEnv('DEDUP_REPORT_LIMIT', 100, 1)
+    },
+    auth: {
+      // Com a autenticação desligada toda requisição age como admin do tenant padrão
+      enabled: process.env.AUTH_ENABLED !== 'false',
+      // Tenant dos dados criados antes da separação por tenant e das cargas iniciais
+      defaultTenant: process.env.DEFAULT_TENANT || 'default',
+      // Chave mestra (admin de todos os tenants), usada para emitir as primeiras chaves;
+      // obrigatória com a autenticação ligada (o servidor não sobe sem ela)
+      masterKey: process.env.MASTER_API_KEY || ''
     }
   };
\ No newline at end of file
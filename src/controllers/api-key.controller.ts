@@ -0,0 +1,65 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { isValidObjectId } from 'mongoose';
+import { ApiKey } from '../models/ApiKey.model';
+import { issueApiKey, revokeApiKey } from '../services/auth.service';
+
+const toKeyView = (apiKey: any) => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  tenant: apiKey.tenant,
+  role: apiKey.role,
+  prefix: apiKey.prefix,
+  lastUsedAt: apiKey.lastUsedAt,
+  revokedAt: apiKey.revokedAt,
+  createdAt: apiKey.createdAt
+});
+
+const apiKeyController = {
+  // Admins emitem chaves do próprio tenant; a chave mestra pode escolher o tenant
+  issue: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { name, role } = req.body;
+      const tenant = req.auth.master && req.body.tenant ? req.body.tenant : req.auth.tenant;
+
+      const { apiKey, key } = await issueApiKey(name, tenant, role);
+
+      // A chave só é exibida nesta resposta
+      res.status(201).json({ ...toKeyView(apiKey), key });
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  list: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const filter: Record<string, unknown> = req.auth.master
+        ? (req.query.tenant ? { tenant: String(req.query.tenant) } : {})
+        : { tenant: req.auth.tenant };
+
+      const keys = await ApiKey.find(filter).sort('-createdAt');
+      res.json(keys.map(toKeyView));
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  revoke: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const apiKey = isValidObjectId(id)
+        ? await revokeApiKey(id, req.auth.master ? undefined : req.auth.tenant)
+        : null;
+
+      if (!apiKey) {
+        return res.status(404).json({ error: 'Chave não encontrada ou já revogada' });
+      }
+
+      console.log(`🔒 Chave ${apiKey.prefix}… revogada`);
+      res.json(toKeyView(apiKey));
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler
+};
+
+export { apiKeyController };
@@ -1,288 +1,156 @@
 import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { isValidObjectId } from 'mongoose';
 import { Knowledge } from '../models/Knowledge.model';
+import { Conversation } from '../models/Conversation.model';
+import { config } from '../config/config';
+import { resolveFollowUp } from '../services/context.service';
+import { AuthContext, conversationScope } from '../services/auth.service';
+import { SYSTEM_ACTOR } from '../services/revision.service';
+import { importKnowledge, parseImportBody } from '../services/knowledge-transfer.service';
+import { openEventStream, splitIntoChunks } from '../services/sse.service';
+import { runIntents } from '../services/intent.service';
+import { CORRECTION_COMMAND } from '../intents/feedback.intent';
+import '../intents';
+import basicMathSeed from '../knowledge/seeds/basic-math.json';
  
 
-// Interface para definições base
-interface Definition {
-  term: string;
-  description: string;
-  category: string;
-}
-
-interface BaseKnowledge {
-  math: {
-    operations: Map<string, string>;
-  };
-  geography: {
-    capitals: Map<string, string>;
-  };
-  politics: {
-    leaders: Map<string, string>;
-  };
-  definitions: Definition[];
-}
-
-const baseKnowledge: BaseKnowledge = {
-  math: {
-    operations: new Map()
-  },
-  geography: {
-    capitals: new Map()
-  },
-  politics: {
-    leaders: new Map()
-  },
-  definitions: []
-};
-
-interface TokenizedContent {
-  term: string;
-  tokens: string[];
-  embedding?: number[];
-}
-
- 
+// Popula o tenant padrão com a carga inicial de expressões matemáticas
+const populateBasicMath = async () => {
+  try {
+    const tenant = config.auth.defaultTenant;
 
-// Função para analisar e categorizar conteúdo
-const analyzeContent = async (content: string) => {
-  // Detecta padrões no conteúdo para classificação
-  const patterns = await Knowledge.find({ type: 'pattern' });
-  let analysis = {
-    content,
-    term: '',
-    type: 'general',
-    category: 'general',
-    language: 'pt',
-    relatedTerms: []
-  };
+    // Verifica se já existem dados
+    const existingMath = await Knowledge.findOne({ tenant, source: 'basic_math' });
+    if (existingMath) return;
 
-  // Extrai termos e relações do conteúdo
-  const words = content.toLowerCase().split(/\s+/);
-  const uniqueTerms = new Set(words);
-  
-  analysis.term = words[0]; // termo principal é a primeira palavra
-  analysis.relatedTerms = Array.from(uniqueTerms);
+    await importKnowledge(tenant, parseImportBody(basicMathSeed), {
+      strategy: 'skip',
+      dryRun: false,
+      revision: { actor: SYSTEM_ACTOR, origin: 'seed' }
+    });
+    console.log('✅ Base matemática populada com sucesso!');
 
-  // Aplica padrões encontrados no banco
-  for (const pattern of patterns) {
-    if (new RegExp(pattern.pattern, 'i').test(content)) {
-      analysis.type = pattern.resultType;
-      analysis.category = pattern.resultCategory;
-      break;
-    }
+  } catch (error) {
+    console.error('❌ Erro ao popular base matemática:', error);
   }
-
-  return analysis;
 };
- 
 
- 
-// Tipos e interfaces 
- 
-   
+// Chama a função quando o servidor iniciar
+populateBasicMath();
 
-interface LLMResponse {
-  content: string;
-  confidence: number;
-  source?: string;
+interface ChatInput {
+  message?: string;
+  sessionId?: string;
+  debug?: boolean;
 }
- 
- 
- 
-
-const generateResponse = async (message: string): Promise<LLMResponse> => {
-  try {
-    // 1. Verifica cálculos
-    const mathPattern = /(\d+\s*[\+\-\*\/]\s*\d+)/;
-    const mathMatch = message.match(mathPattern);
-    if (mathMatch) {
-      const expression = mathMatch[1];
-      const cleanExpr = expression.replace(/\s+/g, '');
-      const result = eval(cleanExpr);
-      return {
-        content: `${cleanExpr} = ${result}`,
-        confidence: 1
-      };
-    }
-
-    // 2. Verifica se é comando de aprendizado
-    if (message.toLowerCase().startsWith('aprenda')) {
-      const content = message
-        .replace(/^aprenda\s*["']?(.*)["']?.*$/i, '$1')
-        .trim();
-
-      // Analisa o conteúdo para identificar padrões e relações
-      const analysis = await analyzeContent(content);
-
-      await Knowledge.create({
-        content: analysis.content,
-        term: analysis.term,
-        relatedTerms: analysis.relatedTerms,
-        type: analysis.type,
-        category: analysis.category,
-        source: 'user_teaching',
-        path: `${analysis.category}/${analysis.type}`,
-        language: analysis.language,
-        confidence: 1,
-        timestamp: new Date()
-      });
 
-      return {
-        content: `Aprendi sobre ${analysis.term}. Você pode me perguntar sobre isso.`,
-        confidence: 1
-      };
-    }
-
-    // 3. Busca conhecimento
-    const searchTerm = message.toLowerCase()
-      .replace(/[?.,!]/g, '')
-      .trim();
+class ChatInputError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ChatInputError';
+  }
+}
 
-    const knowledge = await Knowledge.aggregate([
-      {
-        $match: {
-          $or: [
-            { term: searchTerm },
-            { relatedTerms: searchTerm },
-            { content: { $regex: searchTerm, $options: 'i' } }
-          ]
-        }
-      },
-      {
-        $sort: { timestamp: -1 }
-      }
-    ]);
+// Parâmetros vêm do corpo (POST) ou da query string (GET, usado pelo EventSource)
+const readChatInput = (req: Request): ChatInput => {
+  const source = req.method === 'GET' ? req.query : req.body;
+  return {
+    message: source.message ? String(source.message) : undefined,
+    sessionId: source.sessionId ? String(source.sessionId) : undefined,
+    // Modo detalhado: explica como a resposta foi escolhida
+    debug: Boolean(source.debug || req.query.debug)
+  };
+};
 
-    if (knowledge && knowledge.length > 0) {
-      const mainConcept = knowledge[0];
-      return {
-        content: mainConcept.content,
-        confidence: mainConcept.confidence || 0.8
-      };
+// Resolve a mensagem no contexto da sessão e gera a resposta.
+// Retorna também o que é preciso para registrar os turnos na sessão.
+const answerMessage = async ({ message, sessionId }: ChatInput, auth: AuthContext) => {
+  if (!message) {
+    throw new ChatInputError(400, 'Mensagem é obrigatória');
+  }
+  console.log('🔍 Buscando por:', message);
+
+  // Carrega a sessão para resolver perguntas de continuação
+  let conversation = null;
+  if (sessionId) {
+    conversation = isValidObjectId(sessionId)
+      ? await Conversation.findOne({ _id: sessionId, ...conversationScope(auth) })
+      : null;
+    if (!conversation) {
+      throw new ChatInputError(404, 'Sessão não encontrada');
     }
-
-    return {
-      content: `Não encontrei informações sobre "${searchTerm}". Você pode me ensinar usando o comando 'aprenda'.`,
-      confidence: 0
-    };
-
-  } catch (error) {
-    console.error('❌ Erro:', error);
-    return {
-      content: "Ocorreu um erro ao processar sua pergunta.",
-      confidence: 0
-    };
   }
-};
 
- 
- 
- 
-// Função para avaliar expressões matemáticas
-const evaluateExpression = (expr: string): number => {
-  try {
-    // Remove espaços e caracteres especiais
-    const cleanExpr = expr.replace(/[^0-9+\-*\/()]/g, '');
-    return eval(cleanExpr);
-  } catch {
-    return NaN;
+  const history = conversation
+    ? conversation.turns.slice(-config.conversation.historyTurns)
+    : [];
+  // Correções são aplicadas ao pé da letra, sem resolver referências
+  const resolvedMessage = CORRECTION_COMMAND.test(message)
+    ? message
+    : resolveFollowUp(message, history);
+  if (resolvedMessage !== message) {
+    console.log('🧩 Mensagem resolvida pelo contexto:', resolvedMessage);
   }
-};
-
-// Função para popular o banco com expressões matemáticas
-const populateBasicMath = async () => {
-  try {
-    // Verifica se já existem dados
-    const existingMath = await Knowledge.findOne({ source: 'basic_math' });
-    if (existingMath) return;
-
-    const basicExpressions = [];
-    
-    // Expressões básicas (como antes)
-    for (let i = 0; i <= 10; i++) {
-      for (let j = 0; j <= 10; j++) {
-        // Adição
-        basicExpressions.push({
-          content: `${i} + ${j} = ${i + j}`,
-          source: 'basic_math',
-          path: 'addition',
-          timestamp: new Date()
-        });
 
-        // Multiplicação
-        basicExpressions.push({
-          content: `${i} * ${j} = ${i * j}`,
-          source: 'basic_math',
-          path: 'multiplication',
-          timestamp: new Date()
-        });
-
-        // Expressões combinadas
-        const combined = `${i} + ${j} * 10`;
-        basicExpressions.push({
-          content: `${combined} = ${evaluateExpression(combined)}`,
-          source: 'basic_math',
-          path: 'combined',
-          timestamp: new Date()
-        });
-
-        const combined2 = `${i} * 10 + ${j}`;
-        basicExpressions.push({
-          content: `${combined2} = ${evaluateExpression(combined2)}`,
-          source: 'basic_math',
-          path: 'combined',
-          timestamp: new Date()
-        });
-      }
-    }
+  const response = await runIntents(resolvedMessage, {
+    auth,
+    history,
+    sessionId: conversation?.id
+  });
 
-    // Subtração (apenas resultados não negativos)
-    for (let i = 0; i <= 10; i++) {
-      for (let j = 0; j <= i; j++) {
-        basicExpressions.push({
-          content: `${i} - ${j} = ${i - j}`,
-          source: 'basic_math',
-          path: 'subtraction',
-          timestamp: new Date()
-        });
-      }
-    }
+  return { message, resolvedMessage, response, conversation };
+};
 
-    // Divisão (apenas resultados inteiros)
-    for (let i = 1; i <= 10; i++) {
-      for (let j = 1; j <= 10; j++) {
-        const result = i * j;
-        basicExpressions.push({
-          content: `${result} / ${i} = ${j}`,
-          source: 'basic_math',
-          path: 'division',
-          timestamp: new Date()
-        });
-      }
+const saveTurns = async ({ message, resolvedMessage, response, conversation }: Awaited<ReturnType<typeof answerMessage>>) => {
+  if (!conversation) return;
+
+  conversation.turns.push(
+    { role: 'user', content: message, resolvedMessage, timestamp: new Date() },
+    {
+      role: 'assistant',
+      content: response.content,
+      knowledgeIds: response.type === 'feedback'
+        ? undefined
+        : response.sources
+          // Fatos e trechos de busca não salvos não são conhecimentos que possam ser corrigidos
+          .filter(source => source.source !== 'facts' && isValidObjectId(source.id))
+          .map(source => source.id),
+      intent: response.intent || undefined,
+      timestamp: new Date()
     }
-
-    await Knowledge.insertMany(basicExpressions);
-    console.log('✅ Base matemática populada com sucesso!');
-
-  } catch (error) {
-    console.error('❌ Erro ao popular base matemática:', error);
+  );
+  if (!conversation.title) {
+    conversation.title = message.slice(0, 80);
   }
+  await conversation.save();
 };
 
-// Chama a função quando o servidor iniciar
-populateBasicMath();
+// Metadados de como a resposta foi obtida
+const toMetadata = (
+  { message, resolvedMessage, response, conversation }: Awaited<ReturnType<typeof answerMessage>>,
+  debug: boolean
+) => ({
+  confidence: response.confidence,
+  type: response.type,
+  intent: response.intent,
+  sources: response.sources,
+  alternatives: response.alternatives,
+  ...(conversation && { sessionId: conversation.id }),
+  ...(debug && {
+    debug: {
+      message,
+      resolvedMessage,
+      steps: response.debug
+    }
+  })
+});
 
 const chatController = {
   chat: (async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { message } = req.body;
-      console.log('🔍 Buscando por:', message);
-
-      if (!message) {
-        return res.status(400).json({ error: 'Mensagem é obrigatória' });
-      }
-      
-      const response = await generateResponse(message);
+      const input = readChatInput(req);
+      const answered = await answerMessage(input, req.auth);
+      const { response } = answered;
       
       // Verifica se response existe e tem content
       if (!response || !response.content) {
@@ -290,16 +158,57 @@ const chatController = {
           response: 'Desculpe, não consegui processar sua pergunta.' 
         });
       }
+
+      await saveTurns(answered);
       
-      // Retorna o conteúdo da resposta
-      res.json({ response: response.content });
+      // Retorna o conteúdo da resposta com os metadados de como foi obtida
+      res.json({
+        response: response.content,
+        ...toMetadata(answered, input.debug)
+      });
 
     } catch (error) {
+      if (error instanceof ChatInputError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       console.error('❌ Erro:', error);
       res.status(500).json({ 
         error: 'Erro interno ao processar mensagem' 
       });
     }
+  }) as unknown as RequestHandler,
+
+  // Mesma resposta do chat, enviada por SSE: eventos 'chunk' com o texto em
+  // partes, um evento 'metadata' final e 'error' em caso de falha
+  stream: (async (req: Request, res: Response, next: NextFunction) => {
+    const input = readChatInput(req);
+    const stream = openEventStream(res);
+    try {
+      const answered = await answerMessage(input, req.auth);
+      if (stream.closed) {
+        console.log('🔌 Resposta descartada: cliente desconectou antes do fim');
+        return;
+      }
+
+      const chunks = splitIntoChunks(answered.response.content, config.stream.chunkSize);
+      for (let index = 0; index < chunks.length && !stream.closed; index++) {
+        await stream.send('chunk', { index, text: chunks[index] });
+        await new Promise(resolve => setTimeout(resolve, config.stream.chunkDelay));
+      }
+      if (stream.closed) return;
+
+      await saveTurns(answered);
+      await stream.send('metadata', toMetadata(answered, input.debug));
+    } catch (error) {
+      if (error instanceof ChatInputError) {
+        await stream.send('error', { status: error.status, error: error.message });
+      } else {
+        console.error('❌ Erro:', error);
+        await stream.send('error', { status: 500, error: 'Erro interno ao processar mensagem' });
+      }
+    } finally {
+      stream.end();
+    }
   }) as unknown as RequestHandler
 };
 
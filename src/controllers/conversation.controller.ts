@@ -0,0 +1,71 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { isValidObjectId } from 'mongoose';
+import { Conversation } from '../models/Conversation.model';
+import { conversationScope } from '../services/auth.service';
+import { Page } from '../schemas/common.schema';
+
+const conversationController = {
+  create: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { title } = req.body || {};
+
+      const conversation = await Conversation.create({ tenant: req.auth.tenant, keyId: req.auth.keyId, title });
+      console.log('💬 Nova conversa criada:', conversation.id);
+
+      res.status(201).json(conversation);
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  list: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { page, limit } = req.query as unknown as Page;
+      const conversations = await Conversation.find(conversationScope(req.auth))
+        .select('title createdAt updatedAt')
+        .sort('-updatedAt')
+        .skip((page - 1) * limit)
+        .limit(limit);
+      res.json(conversations);
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  get: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const conversation = isValidObjectId(id)
+        ? await Conversation.findOne({ _id: id, ...conversationScope(req.auth) })
+        : null;
+
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversa não encontrada' });
+      }
+
+      res.json(conversation);
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  remove: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const conversation = isValidObjectId(id)
+        ? await Conversation.findOneAndDelete({ _id: id, ...conversationScope(req.auth) })
+        : null;
+
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversa não encontrada' });
+      }
+
+      console.log('🗑️ Conversa removida:', id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler
+};
+
+export { conversationController };
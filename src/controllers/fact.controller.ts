@@ -0,0 +1,55 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { isValidObjectId } from 'mongoose';
+import { Fact } from '../models/Fact.model';
+import { createFact, toFactKey } from '../services/fact.service';
+
+const factController = {
+  list: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { subject, predicate, object } = req.query;
+      const filter: Record<string, unknown> = { tenant: req.auth.tenant };
+
+      if (subject) filter.subjectKey = toFactKey(String(subject));
+      if (predicate) filter.predicate = String(predicate).toLowerCase();
+      if (object) filter.objectKey = toFactKey(String(object));
+
+      const facts = await Fact.find(filter)
+        .select('subject predicate object source timestamp')
+        .sort('subject');
+      res.json(facts);
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  create: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { subject, predicate, object } = req.body;
+      const fact = await createFact(req.auth.tenant, subject, predicate, object, 'user');
+      console.log('📌 Novo fato:', fact.subject, fact.predicate, fact.object);
+
+      res.status(201).json(fact);
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  remove: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const fact = isValidObjectId(id)
+        ? await Fact.findOneAndDelete({ _id: id, tenant: req.auth.tenant })
+        : null;
+
+      if (!fact) {
+        return res.status(404).json({ error: 'Fato não encontrado' });
+      }
+
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler
+};
+
+export { factController };
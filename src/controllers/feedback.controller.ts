@@ -0,0 +1,62 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { Feedback } from '../models/Feedback.model';
+import { applyFeedback } from '../services/feedback.service';
+import { hasRole } from '../services/auth.service';
+import { actorFromAuth } from '../services/revision.service';
+
+const feedbackController = {
+  create: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { knowledgeId, rating, correction, comment, sessionId } = req.body;
+
+      // Enviar a resposta correta cria conhecimento novo
+      if (correction && !hasRole(req.auth, 'teach')) {
+        return res.status(403).json({ error: 'Esta operação exige uma chave com papel teach' });
+      }
+
+      const result = await applyFeedback({
+        tenant: req.auth.tenant,
+        knowledgeId,
+        rating,
+        correction,
+        comment,
+        sessionId,
+        actor: actorFromAuth(req.auth)
+      });
+      if (!result) {
+        return res.status(404).json({ error: 'Conhecimento não encontrado' });
+      }
+
+      res.status(201).json({
+        feedback: result.feedback,
+        knowledge: {
+          id: result.knowledge.id,
+          confidence: result.knowledge.confidence,
+          positiveFeedback: result.knowledge.positiveFeedback,
+          negativeFeedback: result.knowledge.negativeFeedback,
+          flagged: result.knowledge.flagged
+        },
+        ...(result.correction && { correction: result.correction })
+      });
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  list: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { knowledgeId, rating } = req.query;
+      const filter: Record<string, unknown> = { tenant: req.auth.tenant };
+
+      if (knowledgeId) filter.knowledgeId = knowledgeId;
+      if (rating) filter.rating = String(rating);
+
+      const feedback = await Feedback.find(filter).sort('-timestamp').limit(100);
+      res.json(feedback);
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler
+};
+
+export { feedbackController };
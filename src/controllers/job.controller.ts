@@ -0,0 +1,92 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { isValidObjectId } from 'mongoose';
+import { IngestionJob } from '../models/IngestionJob.model';
+import { parseCrawlOptions, CrawlOptionsError } from '../services/crawler.service';
+import {
+  cancelIngestionJob,
+  enqueueIngestionJob,
+  toJobView
+} from '../services/ingestion-job.service';
+import { revisionContext } from '../services/revision.service';
+import { checkUrl, FetchError } from '../services/fetch.service';
+import { sendError } from '../middlewares/error.middleware';
+
+const jobController = {
+  create: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { url, urls, crawl } = req.body;
+      const list: string[] = urls || [url];
+      // Recusa já na criação as URLs que o download recusaria
+      await Promise.all(list.map(item => checkUrl(item)));
+
+      const job = await enqueueIngestionJob(
+        req.auth.tenant,
+        list,
+        crawl ? parseCrawlOptions(crawl) : undefined,
+        revisionContext(req.auth, crawl ? 'crawl' : 'url', req.body.reason)
+      );
+      res.status(202).json(toJobView(job));
+    } catch (error) {
+      if (error instanceof CrawlOptionsError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof FetchError) {
+        return sendError(res, 400, 'URL não permitida', [{ location: 'body', message: error.message }]);
+      }
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  list: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const filter = {
+        tenant: req.auth.tenant,
+        ...(req.query.status && { status: String(req.query.status) })
+      };
+      const jobs = await IngestionJob.find(filter)
+        .sort('-createdAt')
+        .limit(50);
+      res.json(jobs.map(toJobView));
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  get: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const job = isValidObjectId(id)
+        ? await IngestionJob.findOne({ _id: id, tenant: req.auth.tenant })
+        : null;
+
+      if (!job) {
+        return res.status(404).json({ error: 'Job não encontrado' });
+      }
+
+      res.json(toJobView(job));
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  cancel: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      if (!isValidObjectId(id) || !(await IngestionJob.exists({ _id: id, tenant: req.auth.tenant }))) {
+        return res.status(404).json({ error: 'Job não encontrado' });
+      }
+
+      const job = await cancelIngestionJob(req.auth.tenant, id);
+      if (!job) {
+        return res.status(409).json({ error: 'Job já foi finalizado' });
+      }
+
+      console.log('🛑 Cancelamento solicitado para o job:', id);
+      res.json(toJobView(job));
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler
+};
+
+export { jobController };
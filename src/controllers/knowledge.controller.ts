@@ -1,147 +1,91 @@
 import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { isValidObjectId } from 'mongoose';
 import { Knowledge } from '../models/Knowledge.model';
-import axios from 'axios';
-import * as cheerio from 'cheerio';
-import pdf from 'pdf-parse';
-
-// Interface para a resposta do Bing
-interface BingResponse {
-  webPages?: {
-    value: Array<{
-      name: string;
-      url: string;
-      snippet: string;
-    }>;
-  };
-  computation?: {
-    expression: string;
-    value: string;
-  };
-}
-
-export const learnFromGoogle = async (query: string) => {
+import { SourceDocument } from '../models/SourceDocument.model';
+import { config } from '../config/config';
+import { ingestDocument, ingestPdfUrl, ingestUrl } from '../services/ingestion.service';
+import { extractDocument } from '../services/extraction.service';
+import { enqueueIngestionJob } from '../services/ingestion-job.service';
+import { crawlSite, parseCrawlOptions, CrawlOptionsError } from '../services/crawler.service';
+import { checkUrl, fetchErrorStatus, FetchError } from '../services/fetch.service';
+import { getUploadedFiles } from '../middlewares/upload.middleware';
+import { sendError } from '../middlewares/error.middleware';
+import { Page } from '../schemas/common.schema';
+import { findDuplicateClusters, mergeDuplicates, DuplicateMergeError } from '../services/dedup.service';
+import {
+  newBatchId,
+  recordCreated,
+  recordDeleted,
+  recordUpdated,
+  revisionContext,
+  toSnapshot,
+  SYSTEM_ACTOR
+} from '../services/revision.service';
+import {
+  exportCursor,
+  importKnowledge,
+  parseImportBody,
+  toExportRecord,
+  ImportStrategy
+} from '../services/knowledge-transfer.service';
+import {
+  buildKnowledgeFilter,
+  getKnowledgeStats,
+  pickEditableFields
+} from '../services/knowledge.service';
+import { learnFromSearch, parseSearchCommand } from '../services/search-learning.service';
+import {
+  evaluateExpression,
+  extractExpression,
+  formatResult,
+  parseNumber,
+  resultsMatch,
+  ExpressionError
+} from '../services/expression.service';
+
+// Busca a consulta no provedor configurado e aprende com os resultados
+export const learnFromGoogle = async (tenant: string, query: string, actor = SYSTEM_ACTOR) => {
   try {
-    console.log('🔍 Iniciando busca no Bing:', query);
-
-    if (!process.env.BING_API_KEY) {
-      throw new Error('BING_API_KEY não configurada no .env');
-    }
-
-    const response = await axios.get<BingResponse>('https://api.bing.microsoft.com/v7.0/search', {
-      headers: {
-        'Ocp-Apim-Subscription-Key': process.env.BING_API_KEY,
-        'Accept-Language': 'pt-BR'
-      },
-      params: {
-        q: query,
-        mkt: 'pt-BR',
-        responseFilter: 'Computation,Webpages',
-        count: 10
-      }
-    });
-
-    const searchResults: string[] = [];
-
-    // Verifica se tem resultado de cálculo
-    if (response.data.computation) {
-      const { expression, value } = response.data.computation;
-      searchResults.push(`${expression} = ${value}`);
-    }
-
-    // Verifica resultados da web
-    if (response.data.webPages?.value) {
-      for (const result of response.data.webPages.value) {
-        const text = result.snippet.trim();
-        
-        // Para perguntas matemáticas
-        if (/\d/.test(query)) {
-          if (/\d.*=.*\d/.test(text)) {
-            searchResults.push(text);
-          }
-        } else {
-          // Para outras perguntas
-          searchResults.push(text);
-        }
-      }
-    }
-
-    console.log('📝 Resultados encontrados:', searchResults.length);
-
-    if (searchResults.length > 0) {
-      for (const content of searchResults) {
-        if (!content.includes('http') && content.length < 500) {
-          console.log('💾 Salvando:', content);
-          await Knowledge.create({
-            content,
-            source: 'bing_search',
-            type: 'general'
-          });
-        }
-      }
-      console.log('✅ Conhecimento salvo com sucesso');
-      return true;
-    }
-
-    console.log('❌ Nenhum resultado relevante encontrado');
-    return false;
-
+    const learning = await learnFromSearch(tenant, query, actor);
+    return Boolean(learning?.learned.length);
   } catch (error) {
-    console.error('❌ Erro ao buscar no Bing:', error.message);
-    if (axios.isAxiosError(error)) {
-      console.error('Detalhes:', error.response?.data);
-    }
+    console.error('❌ Erro na busca:', error.message);
     return false;
   }
 };
 
-export const learnFromMessage = async (message: string) => {
+export const learnFromMessage = async (tenant: string, message: string, actor = SYSTEM_ACTOR) => {
   try {
     console.log('📝 Aprendendo:', message);
     
     if (message.includes('=')) {
       const [expression, result] = message.split('=').map(s => s.trim());
-      
-      // Função para calcular expressão
-      const calculateExpression = (expr: string): number => {
-        const numbers = expr.split(/[\+\-\*x\/]/).map(Number);
-        const operators = expr.match(/[\+\-\*x\/]/g) || [];
-        
-        let result = numbers[0];
-        for (let i = 0; i < operators.length; i++) {
-          const operator = operators[i];
-          const nextNum = numbers[i + 1];
-          
-          switch(operator) {
-            case '+': result += nextNum; break;
-            case '-': result -= nextNum; break;
-            case '*': case 'x': result *= nextNum; break;
-            case '/': result /= nextNum; break;
-          }
-        }
-        
-        return result;
-      };
 
       // Valida se é uma expressão matemática
-      if (/^\d+(\s*[\+\-\*x\/]\s*\d+)*$/.test(expression)) {
-        const calculatedResult = calculateExpression(expression);
-        
-        if (calculatedResult === Number(result)) {
+      if (extractExpression(expression) === expression) {
+        const calculatedResult = evaluateExpression(expression);
+        const expectedResult = parseNumber(result);
+
+        if (resultsMatch(calculatedResult, expectedResult)) {
           const content = `${expression} = ${result}`;
           console.log('✅ Expressão válida:', content);
           
           // Evita duplicatas
-          const existing = await Knowledge.findOne({ 
+          const existing = await Knowledge.findOne({
+            tenant,
             content,
             type: 'math'
           });
 
           if (!existing) {
-            await Knowledge.create({
+            const knowledge = await Knowledge.create({
+              tenant,
               content,
               source: 'user_teaching',
+              path: 'math',
               type: 'math'
             });
+            await recordCreated(tenant, [knowledge], { actor, origin: 'chat', reason: message });
           }
           
           return true;
@@ -159,57 +103,67 @@ export const learnFromMessage = async (message: string) => {
   }
 };
 
-export const processWebContent = async (content: string, url: string) => {
+export const processWebContent = async (tenant: string, content: string, url: string, actor = SYSTEM_ACTOR) => {
   try {
     console.log('🔍 Processando conteúdo da web');
     
     // Extrai expressões matemáticas completas
-    const mathPattern = /(\d+)\s*([\+\-\*x\/])\s*(\d+)\s*=\s*(\d+)/g;
+    const number = '\\d+(?:[.,]\\d+)?';
+    const mathPattern = new RegExp(
+      `(${number}(?:\\s*[\\+\\-\\*x\\/\\^]\\s*${number})+)\\s*=\\s*(-?${number})`,
+      'g'
+    );
     const matches = content.matchAll(mathPattern);
     
-    let count = 0;
+    const created = [];
     for (const match of Array.from(matches)) {
-      const [_, num1, operator, num2, result] = match;
-      
+      const [_, rawExpression, result] = match;
+
       // Valida o resultado
-      let calculated;
-      switch(operator) {
-        case '+': calculated = Number(num1) + Number(num2); break;
-        case '-': calculated = Number(num1) - Number(num2); break;
-        case '*': case 'x': calculated = Number(num1) * Number(num2); break;
-        case '/': calculated = Number(num1) / Number(num2); break;
+      let calculated: number;
+      try {
+        calculated = evaluateExpression(rawExpression);
+      } catch (error) {
+        if (error instanceof ExpressionError) {
+          console.log('⚠️ Expressão ignorada:', rawExpression, '-', error.message);
+          continue;
+        }
+        throw error;
       }
       
-      if (calculated === Number(result)) {
-        const expression = `${num1} ${operator} ${num2} = ${result}`;
+      if (resultsMatch(calculated, parseNumber(result))) {
+        const expression = `${rawExpression.replace(/\s+/g, ' ').trim()} = ${result}`;
         
         // Evita duplicatas
         const existing = await Knowledge.findOne({
+          tenant,
           content: expression,
           type: 'math'
         });
         
         if (!existing) {
-          await Knowledge.create({
+          created.push(await Knowledge.create({
+            tenant,
             content: expression,
             source: 'web',
+            path: 'math',
             type: 'math',
             url
-          });
-          count++;
+          }));
         }
       }
     }
     
-    console.log(`✅ Salvos ${count} cálculos válidos`);
-    return count > 0;
+    await recordCreated(tenant, created, { actor, origin: 'url', reason: url });
+    console.log(`✅ Salvos ${created.length} cálculos válidos`);
+    return created.length > 0;
   } catch (error) {
     console.error('❌ Erro ao processar conteúdo:', error);
     return false;
   }
 };
 
-export const findKnowledge = async (query: string) => {
+export const findKnowledge = async (tenant: string, query: string, actor = SYSTEM_ACTOR) => {
   try {
     console.log('🔍 Buscando:', query);
     
@@ -220,39 +174,28 @@ export const findKnowledge = async (query: string) => {
       .replace(/\s+/g, ' ')
       .trim();
     
-    // Função para calcular expressão completa
-    const calculateExpression = (expression: string): number => {
-      const numbers = expression.split(/[\+\-\*x\/]/).map(Number);
-      const operators = expression.match(/[\+\-\*x\/]/g) || [];
-      
-      let result = numbers[0];
-      for (let i = 0; i < operators.length; i++) {
-        const operator = operators[i];
-        const nextNum = numbers[i + 1];
-        
-        switch(operator) {
-          case '+': result += nextNum; break;
-          case '-': result -= nextNum; break;
-          case '*': case 'x': result *= nextNum; break;
-          case '/': result /= nextNum; break;
-        }
-      }
-      
-      return result;
-    };
-
     // Extrai a expressão matemática completa
-    const mathMatch = searchQuery.match(/(\d+\s*[\+\-\*x\/]\s*\d+\s*[\+\-\*x\/\s\d]*)/);
+    const mathMatch = extractExpression(searchQuery);
     if (mathMatch) {
-      const expression = mathMatch[0].replace(/\s+/g, ' ').trim();
-      const result = calculateExpression(expression);
+      const expression = mathMatch.replace(/\s+/g, ' ').trim();
+
+      let result: number;
+      try {
+        result = evaluateExpression(expression);
+      } catch (error) {
+        if (error instanceof ExpressionError) {
+          return `Não consegui calcular "${expression}": ${error.message}.`;
+        }
+        throw error;
+      }
       
       // Formata a expressão para salvar
-      const formattedExpression = `${expression} = ${result}`;
+      const formattedExpression = `${expression} = ${formatResult(result)}`;
       console.log('🔢 Expressão calculada:', formattedExpression);
       
       // Verifica se já existe no banco
       const knowledge = await Knowledge.findOne({
+        tenant,
         type: 'math',
         content: formattedExpression
       });
@@ -263,11 +206,14 @@ export const findKnowledge = async (query: string) => {
       
       // Se não encontrou, salva e retorna
       console.log('📚 Salvando novo conhecimento:', formattedExpression);
-      await Knowledge.create({
+      const created = await Knowledge.create({
+        tenant,
         content: formattedExpression,
         source: 'calculated',
+        path: 'math',
         type: 'math'
       });
+      await recordCreated(tenant, [created], { actor, origin: 'chat', reason: query });
       
       return formattedExpression;
     }
@@ -287,103 +233,106 @@ export const generateMathResponse = (knowledge: any[]) => {
   return null;
 };
 
+// Escreve respeitando o backpressure; resolve também se o cliente desconectar
+const writeChunk = async (res: Response, chunk: string) => {
+  if (res.write(chunk)) return;
+  await new Promise<void>(resolve => {
+    const done = () => {
+      res.off('drain', done);
+      res.off('close', done);
+      resolve();
+    };
+    res.on('drain', done);
+    res.on('close', done);
+  });
+};
+
 const knowledgeController = {
   learn: (async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { url } = req.body;
+      const { url, background } = req.body;
       console.log('🌐 Processando URL:', url);
 
-      if (!url) {
-        return res.status(400).json({ error: 'URL é obrigatória' });
+      // Modo de rastreamento: segue os links do site dentro dos limites informados
+      const crawl = req.body.crawl ? parseCrawlOptions(req.body.crawl === true ? {} : req.body.crawl) : undefined;
+      const context = revisionContext(req.auth, crawl ? 'crawl' : 'url', req.body.reason);
+
+      // Processamento em segundo plano: retorna o job para acompanhamento
+      if (background) {
+        await checkUrl(url);
+        const job = await enqueueIngestionJob(req.auth.tenant, [url], crawl, context);
+        return res.status(202).json({
+          success: true,
+          message: 'URL enviada para processamento em segundo plano',
+          jobId: job.id,
+          batchId: job.id
+        });
       }
 
-      let text;
+      // Tudo o que esta requisição ingerir forma um lote no histórico
+      const revision = { ...context, batchId: newBatchId() };
 
-      if (url.endsWith('.pdf')) {
-        const pdfData = await axios.get(url, { responseType: 'arraybuffer' });
-        const data = await pdf(pdfData.data);
-        text = data.text;
-      } else {
-        // Verifica se é uma página com múltiplos PDFs
-        const response = await axios.get(url);
-        const $ = cheerio.load(response.data);
-        
-        // Coleta todos os links PDF da página
-        const pdfLinks = $('a[href$=".pdf"]')
-          .map((_, el) => $(el).attr('href'))
-          .get();
-
-        console.log('📑 PDFs encontrados:', pdfLinks.length);
-
-        if (pdfLinks.length > 0) {
-          // Processa cada PDF encontrado
-          const results = [];
-          for (const pdfUrl of pdfLinks) {
-            try {
-              console.log('📥 Baixando PDF:', pdfUrl);
-              const pdfData = await axios.get(pdfUrl, { responseType: 'arraybuffer' });
-              const data = await pdf(pdfData.data);
-              
-              console.log('💾 Salvando conteúdo, tamanho:', data.text.length);
-              const knowledge = new Knowledge({
-                content: data.text,
-                source: pdfUrl,
-              });
-              
-              await knowledge.save();
-              console.log('✅ PDF processado com sucesso:', pdfUrl);
-              
-              results.push({
-                url: pdfUrl,
-                success: true,
-                length: data.text.length
-              });
-            } catch (error) {
-              console.error('❌ Erro ao processar PDF:', pdfUrl, error);
-              results.push({
-                url: pdfUrl,
-                success: false,
-                error: error.message
-              });
-            }
+      if (crawl) {
+        const result = await crawlSite(req.auth.tenant, url, crawl, revision);
+        return res.json({
+          success: result.documents.length > 0,
+          message: `Rastreadas ${result.pagesVisited} páginas, ${result.documents.length} documentos salvos`,
+          batchId: revision.batchId,
+          ...result
+        });
+      }
+
+      const outcome = await ingestUrl(req.auth.tenant, url, revision);
+
+      if (outcome.type === 'links') {
+        // Processa cada PDF encontrado
+        const results = [];
+        for (const pdfUrl of outcome.links) {
+          try {
+            const result = await ingestPdfUrl(req.auth.tenant, pdfUrl, revision);
+            results.push({
+              url: pdfUrl,
+              success: true,
+              ...result
+            });
+          } catch (error) {
+            console.error('❌ Erro ao processar PDF:', pdfUrl, error);
+            results.push({
+              url: pdfUrl,
+              success: false,
+              error: error.message
+            });
           }
-          
-          // Verifica se algo foi salvo
-          const totalSaved = await Knowledge.countDocuments();
-          console.log('📊 Total de documentos na base:', totalSaved);
-          
-          return res.json({
-            success: true,
-            message: `Processados ${results.length} PDFs`,
-            results
-          });
-        }
-        const existingKnowledge = await Knowledge.findOne({ source: url });
-        if (existingKnowledge) {
-          return res.status(400).json({ error: 'URL já foi processada anteriormente' });
         }
-        // Se não encontrou PDFs, processa a página normalmente
-        console.log('🔍 Processando página HTML');
-        $('script').remove();
-        $('style').remove();
-        text = $('body').text().trim().replace(/\s+/g, ' ');
+        
+        return res.json({
+          success: true,
+          message: `Processados ${results.length} PDFs`,
+          batchId: revision.batchId,
+          results
+        });
+      }
+
+      if (outcome.type === 'duplicate') {
+        return res.status(400).json({ error: 'URL já foi processada anteriormente' });
       }
-      
-      const knowledge = new Knowledge({
-        content: text,
-        source: url,
-      });
-      
-      await knowledge.save();
-      console.log('✅ Página HTML processada, tamanho:', text.length);
       
       res.json({ 
         success: true, 
         message: 'Conhecimento adquirido com sucesso!',
-        length: text.length
+        batchId: revision.batchId,
+        ...outcome.result
       });
       return;
     } catch (error) {
+      if (error instanceof CrawlOptionsError) {
+        return res.status(400).json({ error: error.message });
+      }
+      if (error instanceof FetchError) {
+        return sendError(res, fetchErrorStatus(error), 'Não foi possível baixar a URL', [
+          { location: 'body', path: 'url', message: error.message }
+        ]);
+      }
       console.error('❌ Erro geral:', error);
       next(error);
       return;
@@ -392,10 +341,30 @@ const knowledgeController = {
 
   list: (async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const knowledge = await Knowledge.find({})
-        .select('source timestamp')
-        .sort('-timestamp');
-      res.json(knowledge);
+      const { page, limit } = req.query as unknown as Page;
+      const filter = buildKnowledgeFilter(req.auth.tenant, req.query);
+
+      // Com busca textual, ordena por relevância; senão, pelos mais recentes
+      const projection = filter.$text ? { score: { $meta: 'textScore' } } : {};
+      const sort: Record<string, any> = filter.$text
+        ? { score: { $meta: 'textScore' } }
+        : { timestamp: -1 };
+
+      const [items, total] = await Promise.all([
+        Knowledge.find(filter, projection)
+          .sort(sort)
+          .skip((page - 1) * limit)
+          .limit(limit),
+        Knowledge.countDocuments(filter)
+      ]);
+
+      res.json({
+        items,
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit)
+      });
       return;
     } catch (error) {
       next(error);
@@ -403,42 +372,247 @@ const knowledgeController = {
     }
   }) as unknown as RequestHandler,
 
-  upload: (async (req, res, next) => {
+  stats: (async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const file = req.file;
-      if (!file) {
-        return res.status(400).json({ error: 'Nenhum arquivo enviado' });
+      res.json(await getKnowledgeStats(req.auth.tenant));
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  get: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const knowledge = isValidObjectId(id)
+        ? await Knowledge.findOne({ _id: id, tenant: req.auth.tenant })
+        : null;
+
+      if (!knowledge) {
+        return res.status(404).json({ error: 'Conhecimento não encontrado' });
       }
 
-      const pdfData = await axios.get(file.path, { responseType: 'arraybuffer' });
-      const data = await pdf(pdfData.data);
+      res.json(knowledge);
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  update: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const changes = pickEditableFields(req.body || {});
+
+      if (Object.keys(changes).length === 0) {
+        return res.status(400).json({ error: 'Nenhum campo editável informado' });
+      }
+
+      const existing = isValidObjectId(id)
+        ? await Knowledge.findOne({ _id: id, tenant: req.auth.tenant })
+        : null;
+      const knowledge = existing
+        ? await Knowledge.findOneAndUpdate(
+          { _id: id, tenant: req.auth.tenant },
+          { $set: changes },
+          { new: true, runValidators: true }
+        )
+        : null;
+
+      if (!knowledge) {
+        return res.status(404).json({ error: 'Conhecimento não encontrado' });
+      }
+
+      await recordUpdated(req.auth.tenant, toSnapshot(existing), knowledge, revisionContext(req.auth, 'api', req.body.reason));
+      console.log('✏️ Conhecimento atualizado:', id);
+      res.json(knowledge);
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  remove: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const knowledge = isValidObjectId(id)
+        ? await Knowledge.findOneAndDelete({ _id: id, tenant: req.auth.tenant })
+        : null;
+
+      if (!knowledge) {
+        return res.status(404).json({ error: 'Conhecimento não encontrado' });
+      }
+
+      await recordDeleted(req.auth.tenant, [knowledge], revisionContext(req.auth, 'api', req.query.reason));
+      console.log('🗑️ Conhecimento removido:', id);
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  // Remove em lote tudo o que veio de uma origem (ex.: resultados ruins de uma busca)
+  removeBySource: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { source } = req.query;
+      const filter = { tenant: req.auth.tenant, source: String(source) };
+      const removed = await Knowledge.find(filter);
+      const { deletedCount } = await Knowledge.deleteMany(filter);
+      await SourceDocument.deleteMany(filter);
+
+      // A remoção em lote pode ser desfeita revertendo o lote
+      const revision = { ...revisionContext(req.auth, 'api', req.query.reason), batchId: newBatchId() };
+      await recordDeleted(req.auth.tenant, removed, revision);
+
+      console.log(`🗑️ Removidos ${deletedCount} conhecimentos de ${source}`);
+      res.json({ success: true, deleted: deletedCount, batchId: revision.batchId });
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  // Grupos de entradas iguais ou quase iguais, com a sugestão de qual manter
+  duplicates: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const limit = Number(req.query.limit) || config.dedup.reportLimit;
+      const clusters = await findDuplicateClusters(req.auth.tenant, limit);
+      const type = req.query.type ? String(req.query.type) : undefined;
+
+      res.json(type ? clusters.filter(cluster => cluster.type === type) : clusters);
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
 
-      const knowledge = new Knowledge({
-        content: data.text,
-        source: file.path,
+  // Funde as entradas informadas mantendo `keep` ou, sem ele, a de melhor origem
+  mergeDuplicates: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { ids, keep } = req.body;
+      const result = await mergeDuplicates(req.auth.tenant, ids, keep, revisionContext(req.auth, 'merge', req.body.reason));
+      res.json({ success: true, kept: result.kept, removed: result.removed, batchId: result.batchId });
+    } catch (error) {
+      if (error instanceof DuplicateMergeError) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  // Exporta em streaming (NDJSON ou array JSON) com os mesmos filtros da listagem
+  export: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const format = String(req.query.format || 'ndjson');
+      const filter = buildKnowledgeFilter(req.auth.tenant, req.query);
+      res.setHeader('Content-Type', format === 'json' ? 'application/json; charset=utf-8' : 'application/x-ndjson; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="knowledge-${req.auth.tenant}.${format}"`);
+
+      const cursor = exportCursor(filter);
+      let count = 0;
+      if (format === 'json') await writeChunk(res, '[');
+
+      try {
+        for await (const doc of cursor) {
+          if (res.destroyed) break;
+          const record = JSON.stringify(toExportRecord(doc));
+          await writeChunk(res, format === 'json' ? `${count > 0 ? ',' : ''}\n${record}` : `${record}\n`);
+          count++;
+        }
+      } finally {
+        await cursor.close();
+      }
+
+      console.log(`📤 Exportados ${count} conhecimentos (${format})`);
+      res.end(format === 'json' ? '\n]\n' : undefined);
+    } catch (error) {
+      // Com o download já iniciado, só resta interromper a resposta
+      if (res.headersSent) {
+        console.error('❌ Erro na exportação:', error);
+        res.destroy(error);
+        return;
+      }
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  // Importa NDJSON, array JSON ou { records }: ?strategy=skip|overwrite|keep-newest&dryRun=true
+  import: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const options = typeof req.body === 'object' && !Array.isArray(req.body) ? { ...req.body, ...req.query } : req.query;
+      const strategy = (options.strategy || 'skip') as ImportStrategy;
+      const dryRun = options.dryRun === true;
+
+      const records = parseImportBody(req.body);
+      if (!records) {
+        return res.status(400).json({ error: 'Envie NDJSON, um array JSON ou { records: [...] }' });
+      }
+
+      const result = await importKnowledge(req.auth.tenant, records, {
+        strategy,
+        dryRun,
+        revision: revisionContext(req.auth, 'import', options.reason)
       });
+      res.status(dryRun ? 200 : 201).json(result);
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
 
-      await knowledge.save();
+  upload: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const files = getUploadedFiles(req);
+      if (files.length === 0) {
+        return res.status(400).json({ error: 'Nenhum arquivo enviado' });
+      }
 
-      res.json({ success: true, message: 'Arquivo processado com sucesso!' });
+      // Processa cada arquivo de forma independente e reporta o resultado de cada um
+      const revision = { ...revisionContext(req.auth, 'upload', req.body?.reason), batchId: newBatchId() };
+      const results = [];
+      for (const file of files) {
+        try {
+          console.log('📄 Processando arquivo:', file.originalname);
+          const document = await extractDocument(file.buffer);
+          const text = document.pages ? document.pages.join('') : document.text;
+
+          if (!text || !text.trim()) {
+            results.push({ file: file.originalname, format: document.format, success: false, error: 'Nenhum texto encontrado' });
+            continue;
+          }
+
+          const result = await ingestDocument({
+            tenant: req.auth.tenant,
+            source: `upload:${file.originalname}`,
+            title: document.title || file.originalname,
+            mimeType: document.mimeType,
+            text: document.text,
+            pages: document.pages,
+            revision
+          });
+
+          results.push({ file: file.originalname, format: document.format, success: true, ...result });
+        } catch (error) {
+          console.error('❌ Erro ao processar arquivo:', file.originalname, error);
+          results.push({ file: file.originalname, success: false, error: error.message });
+        }
+      }
+
+      const processed = results.filter(result => result.success).length;
+      res.json({
+        success: processed > 0,
+        message: `Processados ${processed} de ${files.length} arquivos`,
+        batchId: revision.batchId,
+        results
+      });
       return;
     } catch (error) {
       next(error);
       return;
     }
-
   }) as unknown as RequestHandler,
 
-  processInput: async (message: string) => {
-    if (message.startsWith('@https://www.google.com/search')) {
-      const url = new URL(message.slice(1));
-      const query = url.searchParams.get('q');
-      if (query) {
-        const learned = await learnFromGoogle(query);
-        return learned 
-          ? "Aprendi novos conceitos através do Google Search!"
-          : "Desculpe, não consegui aprender com essa busca.";
-      }
+  processInput: async (tenant: string, message: string) => {
+    const query = parseSearchCommand(message);
+    if (query) {
+      const learned = await learnFromGoogle(tenant, query);
+      return learned
+        ? "Aprendi novos conceitos através da busca na web!"
+        : "Desculpe, não consegui aprender com essa busca.";
     }
     // ... resto do código
   }
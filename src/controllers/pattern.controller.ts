@@ -0,0 +1,126 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { isValidObjectId } from 'mongoose';
+import { Knowledge } from '../models/Knowledge.model';
+import {
+  classifyContent,
+  listPatterns,
+  validatePattern,
+  PatternError
+} from '../services/pattern.service';
+import {
+  recordCreated,
+  recordDeleted,
+  recordUpdated,
+  revisionContext,
+  toSnapshot
+} from '../services/revision.service';
+import { Page } from '../schemas/common.schema';
+
+const findPattern = (tenant: string, id: string) => {
+  return isValidObjectId(id) ? Knowledge.findOne({ _id: id, tenant, type: 'pattern' }) : null;
+};
+
+const patternController = {
+  list: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { page, limit } = req.query as unknown as Page;
+      const patterns = await listPatterns(req.auth.tenant)
+        .select('pattern resultType resultCategory priority timestamp')
+        .skip((page - 1) * limit)
+        .limit(limit);
+      res.json(patterns);
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  create: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { pattern, resultType, resultCategory, priority } = req.body;
+      validatePattern(pattern);
+
+      const created = await Knowledge.create({
+        tenant: req.auth.tenant,
+        content: pattern,
+        pattern,
+        resultType,
+        resultCategory,
+        priority: Number(priority) || 0,
+        type: 'pattern',
+        source: 'pattern_admin',
+        path: 'patterns'
+      });
+      await recordCreated(req.auth.tenant, [created], revisionContext(req.auth, 'api', req.body.reason));
+      console.log('🧩 Novo padrão de classificação:', pattern);
+
+      res.status(201).json(created);
+    } catch (error) {
+      if (error instanceof PatternError) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  update: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const existing = await findPattern(req.auth.tenant, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Padrão não encontrado' });
+      }
+
+      const { pattern, resultType, resultCategory, priority } = req.body;
+      const before = toSnapshot(existing);
+
+      if (pattern !== undefined) {
+        existing.pattern = validatePattern(pattern);
+        existing.content = pattern;
+      }
+      if (resultType !== undefined) existing.resultType = resultType;
+      if (resultCategory !== undefined) existing.resultCategory = resultCategory;
+      if (priority !== undefined) existing.priority = Number(priority) || 0;
+
+      await existing.save();
+      await recordUpdated(req.auth.tenant, before, existing, revisionContext(req.auth, 'api', req.body.reason));
+      res.json(existing);
+    } catch (error) {
+      if (error instanceof PatternError) {
+        return res.status(400).json({ error: error.message });
+      }
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  remove: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const existing = await findPattern(req.auth.tenant, req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Padrão não encontrado' });
+      }
+
+      await existing.deleteOne();
+      await recordDeleted(req.auth.tenant, [existing], revisionContext(req.auth, 'api', req.query.reason));
+      res.json({ success: true });
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  // Mostra qual padrão classificaria o texto, sem salvar nada
+  test: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { match, evaluated } = await classifyContent(req.auth.tenant, req.body.text);
+      res.json({
+        matched: match !== null,
+        pattern: match,
+        type: match ? match.resultType : 'general',
+        category: match ? match.resultCategory : 'general',
+        evaluated
+      });
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler
+};
+
+export { patternController };
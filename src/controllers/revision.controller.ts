@@ -0,0 +1,96 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { isValidObjectId } from 'mongoose';
+import { KnowledgeRevision } from '../models/KnowledgeRevision.model';
+import {
+  buildRevisionFilter,
+  getEntryHistory,
+  revisionContext,
+  rollbackBatch,
+  rollbackEntry
+} from '../services/revision.service';
+import { Page } from '../schemas/common.schema';
+
+const revisionController = {
+  // Histórico do tenant, filtrável por origem do conteúdo (source), lote, autor, origem e ação
+  list: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { page, limit } = req.query as unknown as Page;
+      const filter = buildRevisionFilter(req.auth.tenant, req.query);
+
+      const [items, total] = await Promise.all([
+        KnowledgeRevision.find(filter)
+          .sort({ timestamp: -1, _id: -1 })
+          .skip((page - 1) * limit)
+          .limit(limit),
+        KnowledgeRevision.countDocuments(filter)
+      ]);
+
+      res.json({
+        items,
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  // Revisões de uma entrada, da criação até hoje (inclusive se já foi excluída)
+  entry: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const revisions = isValidObjectId(id) ? await getEntryHistory(req.auth.tenant, id) : [];
+
+      if (revisions.length === 0) {
+        return res.status(404).json({ error: 'Nenhuma revisão encontrada para este conhecimento' });
+      }
+
+      res.json(revisions);
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  rollbackEntry: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { id } = req.params;
+      const { revisionId, reason } = req.body;
+
+      const result = await rollbackEntry(
+        req.auth.tenant,
+        id,
+        revisionId,
+        revisionContext(req.auth, 'rollback', reason)
+      );
+      if (!result) {
+        return res.status(404).json({ error: 'Revisão não encontrada para este conhecimento' });
+      }
+
+      res.json({ success: true, ...result });
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler,
+
+  // Desfaz tudo o que um lote (documento, job, busca, fusão...) alterou
+  rollbackBatch: (async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const summary = await rollbackBatch(
+        req.auth.tenant,
+        req.params.batchId,
+        revisionContext(req.auth, 'rollback', req.body?.reason)
+      );
+      if (!summary) {
+        return res.status(404).json({ error: 'Lote não encontrado' });
+      }
+
+      res.json({ success: true, ...summary });
+    } catch (error) {
+      next(error);
+    }
+  }) as unknown as RequestHandler
+};
+
+export { revisionController };
@@ -0,0 +1,53 @@
+import { answerMathQuestion } from '../services/math.service';
+import {
+  evaluateExpression,
+  extractExpression,
+  formatResult,
+  ExpressionError
+} from '../services/expression.service';
+import { registerIntent } from '../services/intent.service';
+
+// Cálculos: conversões, porcentagens e equações antes das expressões simples,
+// que leriam "2x + 3" como multiplicação
+registerIntent({
+  name: 'calculation',
+  priority: 60,
+  match: (message, context) => {
+    const math = answerMathQuestion(message);
+    if (math) {
+      context.trace({ kind: math.kind, steps: math.steps });
+      return { math };
+    }
+
+    const expression = extractExpression(message);
+    context.trace({ expression });
+    return expression ? { expression } : null;
+  },
+  handle: (message, { math, expression }) => {
+    if (math) {
+      return {
+        content: math.content,
+        confidence: math.solved ? 1 : 0,
+        type: 'calculation'
+      };
+    }
+
+    try {
+      const result = evaluateExpression(expression);
+      return {
+        content: `${expression} = ${formatResult(result)}`,
+        confidence: 1,
+        type: 'calculation'
+      };
+    } catch (error) {
+      if (error instanceof ExpressionError) {
+        return {
+          content: `Não consegui calcular "${expression}": ${error.message}.`,
+          confidence: 0,
+          type: 'calculation'
+        };
+      }
+      throw error;
+    }
+  }
+});
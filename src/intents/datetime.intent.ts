@@ -0,0 +1,18 @@
+import { answerDateQuestion } from '../services/datetime.service';
+import { registerIntent } from '../services/intent.service';
+
+// Perguntas sobre datas e horas, antes dos cálculos, que leriam "7/9/1822" como divisão
+registerIntent({
+  name: 'datetime',
+  priority: 50,
+  match: (message, context) => {
+    const date = answerDateQuestion(message);
+    if (date) context.trace({ kind: date.kind, dates: date.dates });
+    return date;
+  },
+  handle: (message, date) => ({
+    content: date.content,
+    confidence: date.dates.length > 0 ? 1 : 0,
+    type: 'datetime'
+  })
+});
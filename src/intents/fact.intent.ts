@@ -0,0 +1,20 @@
+import { answerFactQuestion } from '../services/fact.service';
+import { registerIntent } from '../services/intent.service';
+
+// Perguntas sobre fatos estruturados ("qual a capital da França?")
+registerIntent({
+  name: 'facts',
+  priority: 70,
+  match: async (message, context) => {
+    const fact = await answerFactQuestion(context.auth.tenant, message);
+    if (fact) context.trace({ factIds: fact.factIds });
+    return fact;
+  },
+  handle: (message, fact) => ({
+    content: fact.content,
+    confidence: 1,
+    type: 'taught_fact',
+    source: 'facts',
+    sources: fact.factIds.map(id => ({ id, source: 'facts', type: 'fact' }))
+  })
+});
@@ -0,0 +1,14 @@
+import { registerIntent } from '../services/intent.service';
+import { toSearchTerm } from './retrieval.intent';
+
+// Nenhum outro handler respondeu: sugere ensinar com "aprenda"
+registerIntent({
+  name: 'fallback',
+  priority: 100,
+  match: () => true,
+  handle: message => ({
+    content: `Não encontrei informações sobre "${toSearchTerm(message)}". Você pode me ensinar usando o comando 'aprenda'.`,
+    confidence: 0,
+    type: 'fallback'
+  })
+});
@@ -0,0 +1,76 @@
+import { applyFeedback } from '../services/feedback.service';
+import { hasRole } from '../services/auth.service';
+import { actorFromAuth } from '../services/revision.service';
+import { IntentAnswer, IntentContext, registerIntent } from '../services/intent.service';
+
+// "corrija: certo", "corrija: errado" ou "corrija: <resposta correta>"
+export const CORRECTION_COMMAND = /^corrija\s*:\s*([\s\S]+)$/i;
+const POSITIVE_FEEDBACK = /^(certo|correto|está certo|esta certo)[.!]?$/i;
+const NEGATIVE_FEEDBACK = /^(errado|incorreto|está errado|esta errado)[.!]?$/i;
+
+// Aplica a avaliação ao conhecimento usado na última resposta da sessão
+const handleCorrection = async (text: string, context: IntentContext): Promise<IntentAnswer> => {
+  const lastAnswer = [...context.history]
+    .reverse()
+    .find(turn => turn.role === 'assistant' && turn.knowledgeIds?.length);
+
+  if (!lastAnswer) {
+    return {
+      content: 'Não encontrei uma resposta anterior desta sessão para corrigir. Use o endpoint /api/feedback informando o knowledgeId.',
+      confidence: 0,
+      type: 'feedback'
+    };
+  }
+
+  const knowledgeId = lastAnswer.knowledgeIds[0];
+  const rating = POSITIVE_FEEDBACK.test(text) ? 'positive' : 'negative';
+  const correction = POSITIVE_FEEDBACK.test(text) || NEGATIVE_FEEDBACK.test(text) ? undefined : text;
+
+  // Avaliar é permitido a qualquer chave; enviar a resposta correta é ensinar
+  if (correction && !hasRole(context.auth, 'teach')) {
+    return {
+      content: 'Sua chave de API não permite enviar correções. Responda "corrija: certo" ou "corrija: errado".',
+      confidence: 0,
+      type: 'feedback'
+    };
+  }
+
+  const result = await applyFeedback({
+    tenant: context.auth.tenant,
+    knowledgeId,
+    rating,
+    correction,
+    sessionId: context.sessionId,
+    actor: actorFromAuth(context.auth)
+  });
+
+  if (!result) {
+    return { content: 'O conhecimento usado na última resposta não existe mais.', confidence: 0, type: 'feedback' };
+  }
+
+  const rated = { id: knowledgeId, source: result.knowledge.source, type: result.knowledge.type };
+  if (result.correction) {
+    return {
+      content: 'Obrigado! Registrei a correção e vou usá-la nas próximas respostas.',
+      confidence: 1,
+      type: 'feedback',
+      sources: [{ id: result.correction.id, source: result.correction.source, type: result.correction.type }, rated]
+    };
+  }
+  return {
+    content: rating === 'positive'
+      ? 'Obrigado pela confirmação!'
+      : 'Obrigado! Vou confiar menos nessa resposta. Se quiser, envie "corrija: <resposta correta>".',
+    confidence: 1,
+    type: 'feedback',
+    sources: [rated]
+  };
+};
+
+// Avaliação ou correção da resposta anterior
+registerIntent({
+  name: 'feedback',
+  priority: 10,
+  match: message => message.match(CORRECTION_COMMAND),
+  handle: (message, correction, context) => handleCorrection(correction[1].trim(), context)
+});
@@ -0,0 +1,18 @@
+import { baseKnowledge } from '../knowledge';
+import { isGreeting } from '../services/greeting.service';
+import { registerIntent } from '../services/intent.service';
+
+// Mensagens que são só um cumprimento; as demais seguem para os outros handlers
+registerIntent({
+  name: 'greeting',
+  priority: 40,
+  match: message => isGreeting(message) || null,
+  handle: () => {
+    const { greetings } = baseKnowledge;
+    return {
+      content: greetings[Math.floor(Math.random() * greetings.length)],
+      confidence: 1,
+      type: 'greeting'
+    };
+  }
+});
@@ -0,0 +1,12 @@
+// Registra os handlers de intenção do chat. A ordem de importação não importa:
+// o pipeline os tenta pela prioridade declarada em cada módulo.
+import './feedback.intent';
+import './teaching.intent';
+import './search-command.intent';
+import './greeting.intent';
+import './datetime.intent';
+import './calculation.intent';
+import './fact.intent';
+import './retrieval.intent';
+import './web-search.intent';
+import './fallback.intent';
@@ -0,0 +1,89 @@
+import { searchKnowledge, RankedKnowledge } from '../services/retrieval.service';
+import { translateText } from '../services/translation.service';
+import { getConfidence } from '../services/feedback.service';
+import { extractAnswer } from '../services/answer-extraction.service';
+import { AnswerSource, AnswerType, IntentAnswer, registerIntent } from '../services/intent.service';
+
+// Termo usado nas buscas: a mensagem sem pontuação
+export const toSearchTerm = (message: string) => {
+  return message.toLowerCase()
+    .replace(/[?.,!]/g, '')
+    .trim();
+};
+
+// Só as frases que respondem à pergunta, com a posição delas na entrada;
+// null quando nenhuma frase tem termos da pergunta
+const extractFrom = (question: string, knowledge: RankedKnowledge) => {
+  const extracted = extractAnswer(question, knowledge.content, { documentOffset: knowledge.startOffset });
+  if (!extracted) return null;
+  const source: AnswerSource = {
+    id: knowledge.id,
+    source: knowledge.source,
+    type: knowledge.type,
+    score: knowledge.score,
+    documentId: knowledge.documentId,
+    page: knowledge.page,
+    citation: extracted.citation
+  };
+  return { content: extracted.content, source };
+};
+
+// Responde com as melhores frases da melhor passagem; as demais passagens vão como
+// alternativas. Sem frases que respondam à pergunta, deixa para os próximos handlers.
+export const answerFromKnowledge = async (
+  question: string,
+  passages: RankedKnowledge[],
+  language: string,
+  type?: AnswerType
+): Promise<IntentAnswer | null> => {
+  const [mainConcept, ...others] = passages;
+  // Conhecimento guardado em outro idioma: a pergunta é traduzida para achar as
+  // frases e a resposta volta traduzida para o idioma do usuário
+  const translated = mainConcept.language && mainConcept.language !== language;
+  const main = extractFrom(
+    translated ? await translateText(question, language, mainConcept.language) : question,
+    mainConcept
+  );
+  if (!main) return null;
+
+  const content = translated
+    ? await translateText(main.content, mainConcept.language, language)
+    : main.content;
+
+  return {
+    content,
+    confidence: getConfidence(mainConcept),
+    type: type || (mainConcept.type === 'passage' ? 'passage' : 'taught_fact'),
+    source: mainConcept.source,
+    sources: [main.source],
+    alternatives: others
+      .map(other => extractFrom(question, other))
+      .filter(Boolean)
+      .map(alternative => ({ ...alternative.source, content: alternative.content }))
+  };
+};
+
+// Busca no conhecimento do tenant. Se o melhor candidato perdeu toda a confiança
+// (ex.: avaliações negativas), a mensagem fica para a busca na web.
+registerIntent({
+  name: 'retrieval',
+  priority: 80,
+  match: async (message, context) => {
+    const searchTerm = toSearchTerm(message);
+    const language = await context.language();
+    const passages = await searchKnowledge(context.auth.tenant, searchTerm, 5, language);
+    context.trace({
+      searchTerm,
+      language,
+      candidates: passages.map(passage => ({
+        id: passage.id,
+        source: passage.source,
+        language: passage.language,
+        score: passage.score,
+        confidence: getConfidence(passage)
+      }))
+    });
+    return passages.length > 0 && getConfidence(passages[0]) > 0 ? { passages, language } : null;
+  },
+  handle: (message, { passages, language }) => answerFromKnowledge(message, passages, language)
+});
@@ -0,0 +1,39 @@
+import { hasRole } from '../services/auth.service';
+import { actorFromAuth } from '../services/revision.service';
+import { learnFromSearch, parseSearchCommand } from '../services/search-learning.service';
+import { registerIntent } from '../services/intent.service';
+
+// Busca na web e aprende: "@search <url de busca | consulta>"
+registerIntent({
+  name: 'search_command',
+  priority: 30,
+  match: (message, context) => {
+    const query = parseSearchCommand(message);
+    context.trace({ query });
+    return query;
+  },
+  handle: async (message, query, context) => {
+    if (!hasRole(context.auth, 'teach')) {
+      return {
+        content: 'Sua chave de API não permite aprender com buscas.',
+        confidence: 0,
+        type: 'learning'
+      };
+    }
+
+    const learning = await learnFromSearch(context.auth.tenant, query, actorFromAuth(context.auth));
+    if (!learning) {
+      return { content: 'Nenhum provedor de busca configurado.', confidence: 0, type: 'learning' };
+    }
+
+    return {
+      content: learning.learned.length > 0
+        ? `Aprendi ${learning.learned.length} novos trechos sobre "${query}" com ${learning.provider}.`
+        : `Não encontrei nada novo sobre "${query}" em ${learning.provider}.`,
+      confidence: learning.learned.length > 0 ? 1 : 0,
+      type: 'learning',
+      source: `search:${learning.provider}`,
+      sources: learning.learned.map(entry => ({ id: entry.id, source: `search:${learning.provider}` }))
+    };
+  }
+});
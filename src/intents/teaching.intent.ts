@@ -0,0 +1,94 @@
+import { Knowledge } from '../models/Knowledge.model';
+import { classifyContent } from '../services/pattern.service';
+import { detectLanguage } from '../services/language.service';
+import { hasRole } from '../services/auth.service';
+import { findDuplicate } from '../services/dedup.service';
+import { actorFromAuth, recordCreated } from '../services/revision.service';
+import { registerIntent } from '../services/intent.service';
+
+// Função para analisar e categorizar conteúdo
+const analyzeContent = async (tenant: string, content: string) => {
+  let analysis = {
+    content,
+    term: '',
+    type: 'general',
+    category: 'general',
+    language: await detectLanguage(content),
+    relatedTerms: []
+  };
+
+  // Extrai termos e relações do conteúdo
+  const words = content.toLowerCase().split(/\s+/);
+  const uniqueTerms = new Set(words);
+
+  analysis.term = words[0]; // termo principal é a primeira palavra
+  analysis.relatedTerms = Array.from(uniqueTerms);
+
+  // Aplica os padrões cadastrados, por ordem de prioridade
+  const { match } = await classifyContent(tenant, content);
+  if (match) {
+    analysis.type = match.resultType;
+    analysis.category = match.resultCategory;
+  }
+
+  return analysis;
+};
+
+// Comando de aprendizado: "aprenda <conteúdo>". Vem antes dos cálculos para
+// que "aprenda que x = 5" seja guardado e não resolvido como equação.
+registerIntent({
+  name: 'teaching',
+  priority: 20,
+  match: message => message.toLowerCase().startsWith('aprenda') || null,
+  handle: async (message, _, context) => {
+    const { tenant } = context.auth;
+    if (!hasRole(context.auth, 'teach')) {
+      return {
+        content: 'Sua chave de API não permite ensinar novos conhecimentos.',
+        confidence: 0,
+        type: 'learning'
+      };
+    }
+
+    const content = message
+      .replace(/^aprenda\s*["']?(.*)["']?.*$/i, '$1')
+      .trim();
+
+    // Analisa o conteúdo para identificar padrões e relações
+    const analysis = await analyzeContent(tenant, content);
+
+    const known = await findDuplicate(tenant, analysis.content);
+    if (known) {
+      return {
+        content: `Eu já sabia disso sobre ${analysis.term}.`,
+        confidence: 1,
+        type: 'learning',
+        source: known.source,
+        sources: [{ id: known.id, source: known.source }]
+      };
+    }
+
+    const knowledge = await Knowledge.create({
+      tenant,
+      content: analysis.content,
+      term: analysis.term,
+      relatedTerms: analysis.relatedTerms,
+      type: analysis.type,
+      category: analysis.category,
+      source: 'user_teaching',
+      path: `${analysis.category}/${analysis.type}`,
+      language: analysis.language,
+      confidence: 1,
+      timestamp: new Date()
+    });
+    await recordCreated(tenant, [knowledge], { actor: actorFromAuth(context.auth), origin: 'chat', reason: message });
+
+    return {
+      content: `Aprendi sobre ${analysis.term}. Você pode me perguntar sobre isso.`,
+      confidence: 1,
+      type: 'learning',
+      source: 'user_teaching',
+      sources: [{ id: knowledge.id, source: 'user_teaching', type: analysis.type }]
+    };
+  }
+});
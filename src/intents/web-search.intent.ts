@@ -0,0 +1,58 @@
+import { config } from '../config/config';
+import { hasRole } from '../services/auth.service';
+import { getConfidence } from '../services/feedback.service';
+import { searchKnowledge } from '../services/retrieval.service';
+import { actorFromAuth } from '../services/revision.service';
+import { learnFromSearch, searchWeb } from '../services/search-learning.service';
+import { IntentAnswer, IntentContext, registerIntent } from '../services/intent.service';
+import { answerFromKnowledge, toSearchTerm } from './retrieval.intent';
+
+// Chaves sem permissão de ensinar recebem o melhor trecho da busca, sem salvar nada
+const answerFromSearch = async (searchTerm: string, context: IntentContext): Promise<IntentAnswer | null> => {
+  const search = await searchWeb(searchTerm);
+  context.trace(search
+    ? { provider: search.provider, results: search.results, learned: 0 }
+    : { provider: null });
+  if (!search?.snippets.length) return null;
+
+  const [best] = search.snippets;
+  return {
+    content: best.content,
+    confidence: config.search.learnedConfidence,
+    type: 'web_search',
+    source: `search:${search.provider}`,
+    sources: [{ id: best.url, source: `search:${search.provider}` }]
+  };
+};
+
+// Sem resposta confiável no conhecimento (nenhum candidato, ou o melhor com
+// confiança 0): busca na web, aprende e tenta de novo
+registerIntent({
+  name: 'web_search',
+  priority: 90,
+  match: message => (config.search.fallback && toSearchTerm(message)) || null,
+  handle: async (message, searchTerm, context) => {
+    const { tenant } = context.auth;
+    try {
+      if (!hasRole(context.auth, 'teach')) {
+        return await answerFromSearch(searchTerm, context);
+      }
+
+      const learning = await learnFromSearch(tenant, searchTerm, actorFromAuth(context.auth));
+      context.trace(learning
+        ? { provider: learning.provider, results: learning.results, learned: learning.learned.length }
+        : { provider: null });
+      if (!learning?.learned.length) return null;
+
+      const language = await context.language();
+      // A entrada que perdeu a confiança não volta como resposta
+      const learned = (await searchKnowledge(tenant, searchTerm, 5, language))
+        .filter(passage => getConfidence(passage) > 0);
+      return learned.length > 0 ? answerFromKnowledge(message, learned, language, 'web_search') : null;
+    } catch (error) {
+      console.error('⚠️ Erro na busca na web:', error.message);
+      context.trace({ error: error.message });
+      return null;
+    }
+  }
+});
@@ -2,10 +2,11 @@ import { mathKnowledge } from './math.knowledge';
 import { geographyKnowledge } from './geography.knowledge';
 import { politicsKnowledge } from './politics.knowledge';
 import { Knowledge } from '../models/Knowledge.model';
+import { config } from '../config/config';
 
-// Carrega conhecimento do MongoDB na inicialização
+// Carrega conhecimento do MongoDB (tenant padrão) na inicialização
 const loadStoredKnowledge = async () => {
-  const mathKnowledge = await Knowledge.find({ type: 'math' });
+  const mathKnowledge = await Knowledge.find({ tenant: config.auth.defaultTenant, type: 'math' });
   mathKnowledge.forEach(k => {
     const match = k.content.match(/(.+)=(.+)/);
     if (match) {
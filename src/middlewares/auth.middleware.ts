@@ -0,0 +1,49 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ApiKeyRole } from '../models/ApiKey.model';
+import { config } from '../config/config';
+import { hasRole, resolveApiKey } from '../services/auth.service';
+
+// A chave vem no cabeçalho X-API-Key ou Authorization: Bearer. A query
+// ?apiKey= existe para o EventSource, que não permite enviar cabeçalhos.
+const readApiKey = (req: Request): string | undefined => {
+  const header = req.header('x-api-key');
+  if (header) return header.trim();
+
+  const authorization = req.header('authorization');
+  const bearer = authorization?.match(/^Bearer\s+(.+)$/i);
+  if (bearer) return bearer[1].trim();
+
+  return typeof req.query.apiKey === 'string' ? req.query.apiKey : undefined;
+};
+
+export const authenticate = (async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!config.auth.enabled) {
+      req.auth = { tenant: config.auth.defaultTenant, role: 'admin', master: true };
+      return next();
+    }
+
+    const key = readApiKey(req);
+    if (!key) {
+      return res.status(401).json({ error: 'Chave de API não informada' });
+    }
+
+    const auth = await resolveApiKey(key);
+    if (!auth) {
+      return res.status(401).json({ error: 'Chave de API inválida ou revogada' });
+    }
+
+    req.auth = auth;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}) as unknown as RequestHandler;
+
+export const requireRole = (role: ApiKeyRole): RequestHandler => (req, res, next) => {
+  if (!req.auth || !hasRole(req.auth, role)) {
+    res.status(403).json({ error: `Esta operação exige uma chave com papel ${role}` });
+    return;
+  }
+  next();
+};
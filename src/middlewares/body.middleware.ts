@@ -0,0 +1,38 @@
+import express, { Request, Response, NextFunction, RequestHandler } from 'express';
+import { config } from '../config/config';
+
+// Leitura do corpo (JSON, formulário e texto/NDJSON) com limite de tamanho por
+// rota: vale o prefixo mais específico de config.http.routeBodyLimits ou,
+// sem nenhum, config.http.bodyLimit. Uploads multipart ficam com o multer.
+
+const parsers = new Map<string, RequestHandler[]>();
+
+const parsersFor = (limit: string) => {
+  if (!parsers.has(limit)) {
+    parsers.set(limit, [
+      express.json({ limit }),
+      express.urlencoded({ limit, extended: true }),
+      express.text({ limit, type: ['text/plain', 'application/x-ndjson'] })
+    ]);
+  }
+  return parsers.get(limit)!;
+};
+
+export const bodyLimitFor = (path: string) => {
+  const prefix = Object.keys(config.http.routeBodyLimits)
+    .filter(route => path === route || path.startsWith(`${route}/`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? config.http.routeBodyLimits[prefix] : config.http.bodyLimit;
+};
+
+export const parseBody: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+  const chain = parsersFor(bodyLimitFor(req.path));
+  const run = (index: number, error?: unknown) => {
+    if (error || index === chain.length) {
+      next(error);
+      return;
+    }
+    chain[index](req, res, nextError => run(index + 1, nextError));
+  };
+  run(0);
+};
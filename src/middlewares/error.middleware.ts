@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction } from 'express';
+
+// Formato único dos erros da API: { error, details? }. `error` é uma mensagem
+// curta; `details` aponta, quando houver, o campo ou a causa de cada problema.
+export interface ErrorDetail {
+  location?: 'body' | 'query' | 'params';
+  path?: string;
+  message: string;
+}
+
+export const sendError = (res: Response, status: number, error: string, details?: ErrorDetail[]) => {
+  return res.status(status).json({ error, ...(details && details.length > 0 && { details }) });
+};
+
+export const errorHandler = (err: any, req: Request, res: Response, next: NextFunction) => {
+  // Erros do body-parser: corpo acima do limite da rota ou JSON malformado
+  if (err.type === 'entity.too.large') {
+    sendError(res, 413, 'Corpo da requisição muito grande', [
+      { location: 'body', message: `Limite de ${err.limit} bytes para esta rota` }
+    ]);
+    return;
+  }
+  if (err.type === 'entity.parse.failed') {
+    sendError(res, 400, 'Corpo da requisição inválido', [{ location: 'body', message: err.message }]);
+    return;
+  }
+
+  console.error(err.stack);
+  sendError(res, 500, 'Erro interno do servidor', [{ message: err.message }]);
+};
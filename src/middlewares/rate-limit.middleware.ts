@@ -0,0 +1,68 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { config } from '../config/config';
+import { sendError } from './error.middleware';
+
+// Limite de requisições por cliente em janelas fixas. Cada limitador tem seus
+// próprios contadores, mantidos em memória (valem por processo).
+
+export interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+}
+
+interface Window {
+  count: number;
+  resetAt: number;
+}
+
+// Clientes com chave de API são contados pela chave; os demais, pelo IP
+const clientKey = (req: Request) => {
+  return req.auth?.keyId ? `key:${req.auth.keyId}` : `ip:${req.ip}`;
+};
+
+export const rateLimit = (name: string, options: RateLimitOptions): RequestHandler => {
+  const windows = new Map<string, Window>();
+
+  // Descarta janelas vencidas para não acumular clientes inativos
+  setInterval(() => {
+    const now = Date.now();
+    windows.forEach((window, key) => {
+      if (window.resetAt <= now) windows.delete(key);
+    });
+  }, options.windowMs).unref();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!config.rateLimit.enabled) {
+      next();
+      return;
+    }
+
+    const now = Date.now();
+    const key = clientKey(req);
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + options.windowMs };
+      windows.set(key, window);
+    }
+    window.count++;
+
+    res.setHeader('X-RateLimit-Limit', options.max);
+    res.setHeader('X-RateLimit-Remaining', Math.max(0, options.max - window.count));
+    res.setHeader('X-RateLimit-Reset', Math.ceil(window.resetAt / 1000));
+
+    if (window.count > options.max) {
+      const retryAfter = Math.ceil((window.resetAt - now) / 1000);
+      res.setHeader('Retry-After', retryAfter);
+      console.log(`🚦 Limite de ${name} atingido por ${key}`);
+      sendError(res, 429, 'Muitas requisições, tente novamente mais tarde', [
+        { message: `Limite de ${options.max} requisições de ${name} a cada ${options.windowMs / 1000}s; tente em ${retryAfter}s` }
+      ]);
+      return;
+    }
+    next();
+  };
+};
+
+export const chatRateLimit = rateLimit('chat', config.rateLimit.chat);
+export const learnRateLimit = rateLimit('learn', config.rateLimit.learn);
+export const uploadRateLimit = rateLimit('upload', config.rateLimit.upload);
@@ -0,0 +1,33 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import multer from 'multer';
+import { config } from '../config/config';
+import { sendError } from './error.middleware';
+
+// Arquivos ficam em memória: o conteúdo é extraído e descartado logo em seguida
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: config.upload.maxFileSize,
+    files: config.upload.maxFiles
+  }
+}).fields([
+  { name: 'file', maxCount: 1 },
+  { name: 'files', maxCount: config.upload.maxFiles }
+]);
+
+export const uploadFiles: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+  upload(req, res, error => {
+    if (error instanceof multer.MulterError) {
+      sendError(res, 400, 'Upload inválido', [{ location: 'body', path: error.field, message: error.message }]);
+      return;
+    }
+    next(error);
+  });
+};
+
+// Junta os arquivos enviados nos campos 'file' e 'files'
+export const getUploadedFiles = (req: Request): Express.Multer.File[] => {
+  const files = req.files as Record<string, Express.Multer.File[]> | undefined;
+  if (!files) return [];
+  return [...(files.file || []), ...(files.files || [])];
+};
@@ -0,0 +1,79 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { z, ZodTypeAny } from 'zod';
+import { ErrorDetail, sendError } from './error.middleware';
+
+// Validação de corpo, query string e parâmetros com schemas zod. Os valores
+// validados (e convertidos) substituem os originais na requisição; campos
+// desconhecidos são descartados.
+
+interface RequestSchemas {
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+}
+
+const LOCATIONS = ['params', 'query', 'body'] as const;
+
+// Mensagens em português para os erros mais comuns
+z.setErrorMap((issue, context) => {
+  switch (issue.code) {
+    case 'invalid_type':
+      return {
+        message: issue.received === 'undefined'
+          ? 'Campo obrigatório'
+          : `Esperado ${issue.expected}, recebido ${issue.received}`
+      };
+    case 'invalid_enum_value':
+      return { message: `Deve ser um de: ${issue.options.join(', ')}` };
+    case 'too_small':
+      return {
+        message: issue.type === 'string'
+          ? `Deve ter ao menos ${issue.minimum} caractere(s)`
+          : issue.type === 'array'
+            ? `Deve ter ao menos ${issue.minimum} item(ns)`
+            : `Deve ser no mínimo ${issue.minimum}`
+      };
+    case 'too_big':
+      return {
+        message: issue.type === 'string'
+          ? `Deve ter no máximo ${issue.maximum} caracteres`
+          : issue.type === 'array'
+            ? `Deve ter no máximo ${issue.maximum} itens`
+            : `Deve ser no máximo ${issue.maximum}`
+      };
+    case 'invalid_string':
+      return { message: issue.validation === 'url' ? 'URL inválida' : 'Formato inválido' };
+    case 'invalid_union':
+      return { message: 'Formato inválido' };
+    case 'unrecognized_keys':
+      return { message: `Campos desconhecidos: ${issue.keys.join(', ')}` };
+    default:
+      return { message: context.defaultError };
+  }
+});
+
+export const validate = (schemas: RequestSchemas): RequestHandler => (req: Request, res: Response, next: NextFunction) => {
+  const details: ErrorDetail[] = [];
+
+  for (const location of LOCATIONS) {
+    const schema = schemas[location];
+    if (!schema) continue;
+
+    const result = schema.safeParse(req[location] ?? {});
+    if (result.success) {
+      req[location] = result.data;
+    } else {
+      details.push(...result.error.issues.map(issue => ({
+        location,
+        ...(issue.path.length > 0 && { path: issue.path.join('.') }),
+        message: issue.message
+      })));
+    }
+  }
+
+  if (details.length > 0) {
+    sendError(res, 400, 'Requisição inválida', details);
+    return;
+  }
+  next();
+};
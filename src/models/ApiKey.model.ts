@@ -0,0 +1,32 @@
+import { Schema, model } from 'mongoose';
+
+export type ApiKeyRole = 'chat' | 'teach' | 'admin';
+
+// Chave de acesso à API. Só o hash é guardado; a chave em si é mostrada
+// uma única vez, na emissão.
+interface IApiKey {
+  name: string;
+  tenant: string;
+  role: ApiKeyRole;
+  keyHash: string;
+  // Início da chave, para identificá-la nas listagens
+  prefix: string;
+  lastUsedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ApiKeySchema = new Schema<IApiKey>({
+  name: { type: String, required: true },
+  tenant: { type: String, required: true },
+  role: { type: String, enum: ['chat', 'teach', 'admin'], required: true },
+  keyHash: { type: String, required: true, unique: true },
+  prefix: { type: String, required: true },
+  lastUsedAt: Date,
+  revokedAt: Date
+}, { timestamps: true });
+
+ApiKeySchema.index({ tenant: 1, createdAt: -1 });
+
+export const ApiKey = model<IApiKey>('ApiKey', ApiKeySchema);
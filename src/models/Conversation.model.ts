@@ -0,0 +1,42 @@
+import { Schema, model } from 'mongoose';
+
+export interface IConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  resolvedMessage?: string;
+  // Conhecimentos usados na resposta, alvo do comando de correção
+  knowledgeIds?: string[];
+  // Handler de intenção que gerou a resposta
+  intent?: string;
+  timestamp: Date;
+}
+
+interface IConversation {
+  tenant: string;
+  // Chave de API que criou a conversa
+  keyId?: string;
+  title?: string;
+  turns: IConversationTurn[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ConversationTurnSchema = new Schema<IConversationTurn>({
+  role: { type: String, enum: ['user', 'assistant'], required: true },
+  content: { type: String, required: true },
+  resolvedMessage: String,
+  knowledgeIds: { type: [String], default: undefined },
+  intent: String,
+  timestamp: { type: Date, default: Date.now }
+}, { _id: false });
+
+const ConversationSchema = new Schema<IConversation>({
+  tenant: { type: String, required: true },
+  keyId: String,
+  title: String,
+  turns: { type: [ConversationTurnSchema], default: [] }
+}, { timestamps: true });
+
+ConversationSchema.index({ tenant: 1, updatedAt: -1 });
+
+export const Conversation = model<IConversation>('Conversation', ConversationSchema);
@@ -0,0 +1,31 @@
+import { Schema, model } from 'mongoose';
+
+// Fato estruturado no formato sujeito / predicado / objeto,
+// ex.: (Brasil, capital, Brasília)
+interface IFact {
+  tenant: string;
+  subject: string;
+  predicate: string;
+  object: string;
+  // Versões normalizadas (minúsculas, sem acentos) usadas nas consultas
+  subjectKey: string;
+  objectKey: string;
+  source: string;
+  timestamp: Date;
+}
+
+const FactSchema = new Schema<IFact>({
+  tenant: { type: String, required: true },
+  subject: { type: String, required: true },
+  predicate: { type: String, required: true },
+  object: { type: String, required: true },
+  subjectKey: { type: String, required: true },
+  objectKey: { type: String, required: true },
+  source: { type: String, required: true },
+  timestamp: { type: Date, default: Date.now }
+});
+
+FactSchema.index({ tenant: 1, subjectKey: 1, predicate: 1 });
+FactSchema.index({ tenant: 1, objectKey: 1, predicate: 1 });
+
+export const Fact = model<IFact>('Fact', FactSchema);
@@ -0,0 +1,30 @@
+import { Schema, model, Types } from 'mongoose';
+
+export type FeedbackRating = 'positive' | 'negative';
+
+// Avaliação de uma resposta dada a partir de um conhecimento
+interface IFeedback {
+  tenant: string;
+  knowledgeId: Types.ObjectId;
+  rating: FeedbackRating;
+  // Conhecimento criado a partir da correção enviada pelo usuário
+  correctionId?: Types.ObjectId;
+  comment?: string;
+  sessionId?: Types.ObjectId;
+  timestamp: Date;
+}
+
+const FeedbackSchema = new Schema<IFeedback>({
+  tenant: { type: String, required: true },
+  knowledgeId: { type: Schema.Types.ObjectId, ref: 'Knowledge', required: true },
+  rating: { type: String, enum: ['positive', 'negative'], required: true },
+  correctionId: { type: Schema.Types.ObjectId, ref: 'Knowledge' },
+  comment: String,
+  sessionId: { type: Schema.Types.ObjectId, ref: 'Conversation' },
+  timestamp: { type: Date, default: Date.now }
+});
+
+FeedbackSchema.index({ knowledgeId: 1, timestamp: -1 });
+FeedbackSchema.index({ tenant: 1, timestamp: -1 });
+
+export const Feedback = model<IFeedback>('Feedback', FeedbackSchema);
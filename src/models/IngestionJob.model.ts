@@ -0,0 +1,74 @@
+import { Schema, model } from 'mongoose';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type JobItemStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+// Cada URL do job tem seu próprio estado, tentativas e resultado
+export interface IJobItem {
+  url: string;
+  status: JobItemStatus;
+  attempts: number;
+  nextAttemptAt?: Date;
+  error?: string;
+  documentId?: string;
+  passages?: number;
+  // URL da página em que o item foi descoberto (ex.: PDFs listados numa página)
+  discoveredFrom?: string;
+}
+
+interface IIngestionJob {
+  tenant: string;
+  status: JobStatus;
+  items: IJobItem[];
+  maxAttempts: number;
+  // Opções de rastreamento: cada URL do job é rastreada em vez de lida isoladamente
+  crawl?: Record<string, unknown>;
+  // Quem criou o job, registrado no histórico dos conhecimentos ingeridos
+  actor: string;
+  reason?: string;
+  cancelRequested: boolean;
+  // Trava do worker que está processando o job; travas antigas são retomadas
+  lockedAt?: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const JobItemSchema = new Schema<IJobItem>({
+  url: { type: String, required: true },
+  status: {
+    type: String,
+    enum: ['pending', 'running', 'completed', 'failed', 'cancelled'],
+    default: 'pending'
+  },
+  attempts: { type: Number, default: 0 },
+  nextAttemptAt: Date,
+  error: String,
+  documentId: String,
+  passages: Number,
+  discoveredFrom: String
+}, { _id: false });
+
+const IngestionJobSchema = new Schema<IIngestionJob>({
+  tenant: { type: String, required: true },
+  status: {
+    type: String,
+    enum: ['queued', 'running', 'completed', 'failed', 'cancelled'],
+    default: 'queued'
+  },
+  items: { type: [JobItemSchema], default: [] },
+  maxAttempts: { type: Number, default: 3 },
+  crawl: Schema.Types.Mixed,
+  actor: { type: String, default: 'system' },
+  reason: String,
+  cancelRequested: { type: Boolean, default: false },
+  lockedAt: Date,
+  startedAt: Date,
+  finishedAt: Date
+}, { timestamps: true });
+
+IngestionJobSchema.index({ status: 1, createdAt: 1 });
+IngestionJobSchema.index({ tenant: 1, createdAt: -1 });
+
+export const IngestionJob = model<IIngestionJob>('IngestionJob', IngestionJobSchema);
@@ -1,12 +1,17 @@
-import mongoose, { Schema, model } from 'mongoose';
+import mongoose, { Schema, model, Types, UpdateQuery } from 'mongoose';
+import { EventEmitter } from 'events';
+import { detectLanguage } from '../services/language.service';
+import { fingerprint } from '../services/fingerprint.service';
 
 interface IKnowledge {
+  tenant: string;
   content: string;
   term?: string;
   pattern?: string;
   intent?: string;
   resultType?: string;
   resultCategory?: string;
+  priority?: number;
   category?: string;
   language?: string;
   type?: string;
@@ -14,26 +19,127 @@ interface IKnowledge {
   path: string;
   timestamp: Date;
   confidence?: number;
+  // Página de onde o conteúdo foi obtido (ex.: resultado de busca)
+  url?: string;
+  positiveFeedback: number;
+  negativeFeedback: number;
+  flagged: boolean;
+  flaggedAt?: Date;
+  documentId?: Types.ObjectId;
+  page?: number;
+  chunkIndex?: number;
+  startOffset?: number;
+  endOffset?: number;
+  contentHash?: string;
+  minhash?: number[];
+  minhashBands?: string[];
 }
 
 const KnowledgeSchema = new Schema<IKnowledge>({
+  tenant: { type: String, required: true },
   content: { type: String, required: true },
   term: String,
   pattern: String,
   intent: String,
   resultType: String,
   resultCategory: String,
+  // Ordem de aplicação dos padrões de classificação (maior primeiro)
+  priority: Number,
   category: String,
   language: String,
   type: String,
   source: { type: String, required: true },
   path: { type: String, required: true },
   timestamp: { type: Date, default: Date.now },
-  confidence: Number
+  confidence: Number,
+  url: String,
+  // Avaliações dos usuários; entradas com muitas avaliações negativas ficam marcadas para revisão
+  positiveFeedback: { type: Number, default: 0 },
+  negativeFeedback: { type: Number, default: 0 },
+  flagged: { type: Boolean, default: false },
+  flaggedAt: Date,
+  // Passagens de documentos ingeridos (type: 'passage')
+  documentId: { type: Schema.Types.ObjectId, ref: 'SourceDocument' },
+  page: Number,
+  chunkIndex: Number,
+  startOffset: Number,
+  endOffset: Number,
+  // Impressões digitais do conteúdo para detecção de duplicatas, calculadas ao gravar
+  contentHash: String,
+  minhash: { type: [Number], default: undefined },
+  minhashBands: { type: [String], default: undefined }
+});
+
+// Notifica alterações para quem mantém estruturas derivadas (ex.: índice de busca local).
+// 'saved' e 'removed' recebem o documento; 'changed' recebe o id de um documento
+// alterado por query; 'invalidated' indica alteração em lote sem documentos conhecidos.
+export const knowledgeEvents = new EventEmitter();
+
+// Todo conhecimento é gravado com o idioma do conteúdo, detectado quando não informado
+KnowledgeSchema.pre('save', async function () {
+  if (!this.language) {
+    this.language = await detectLanguage(this.content);
+  }
+  if (this.isModified('content') || !this.contentHash) {
+    this.set({ minhash: undefined, minhashBands: undefined, ...fingerprint(this.content) });
+  }
+});
+
+KnowledgeSchema.pre('insertMany', async function (next: (error?: Error) => void, docs: Partial<IKnowledge>[]) {
+  await Promise.all(docs.map(async doc => {
+    if (!doc.language) {
+      doc.language = await detectLanguage(doc.content);
+    }
+    Object.assign(doc, fingerprint(doc.content));
+  }));
+});
+
+// Edições de conteúdo pela API recalculam as impressões digitais
+KnowledgeSchema.pre('findOneAndUpdate', function () {
+  const update: UpdateQuery<IKnowledge> | null = this.getUpdate();
+  const content = update?.$set?.content ?? update?.content;
+  if (typeof content === 'string') {
+    const { contentHash, minhash, minhashBands } = fingerprint(content);
+    this.set({ contentHash });
+    if (minhash) {
+      this.set({ minhash, minhashBands });
+    } else {
+      this.setUpdate({ ...update, $unset: { ...update.$unset, minhash: 1, minhashBands: 1 } });
+    }
+  }
+});
+
+KnowledgeSchema.post('save', doc => {
+  knowledgeEvents.emit('saved', doc);
+});
+
+KnowledgeSchema.post('insertMany', (docs: Partial<IKnowledge>[]) => {
+  docs.forEach(doc => knowledgeEvents.emit('saved', doc));
+});
+
+KnowledgeSchema.post('findOneAndUpdate', doc => {
+  if (doc) knowledgeEvents.emit('changed', doc._id);
+});
+
+KnowledgeSchema.post('findOneAndDelete', doc => {
+  if (doc) knowledgeEvents.emit('removed', doc);
+});
+
+KnowledgeSchema.post('deleteOne', { document: true, query: false }, doc => {
+  knowledgeEvents.emit('removed', doc);
+});
+
+KnowledgeSchema.post(['updateOne', 'updateMany', 'deleteMany', 'replaceOne'], () => {
+  knowledgeEvents.emit('invalidated');
 });
 
 KnowledgeSchema.index({ content: 'text' });
-KnowledgeSchema.index({ source: 1 });
-KnowledgeSchema.index({ path: 1 });
+KnowledgeSchema.index({ tenant: 1, term: 1 });
+KnowledgeSchema.index({ tenant: 1, source: 1 });
+KnowledgeSchema.index({ tenant: 1, path: 1 });
+KnowledgeSchema.index({ documentId: 1, chunkIndex: 1 });
+KnowledgeSchema.index({ tenant: 1, flagged: 1 });
+KnowledgeSchema.index({ tenant: 1, contentHash: 1 });
+KnowledgeSchema.index({ tenant: 1, minhashBands: 1 });
 
 export const Knowledge = model<IKnowledge>('Knowledge', KnowledgeSchema);
\ No newline at end of file
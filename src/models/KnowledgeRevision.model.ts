@@ -0,0 +1,62 @@
+import { Schema, model, Types } from 'mongoose';
+
+export type RevisionAction = 'create' | 'update' | 'delete';
+
+// De onde veio a alteração
+export type RevisionOrigin =
+  | 'chat'
+  | 'url'
+  | 'upload'
+  | 'crawl'
+  | 'search'
+  | 'feedback'
+  | 'correction'
+  | 'api'
+  | 'merge'
+  | 'rollback'
+  | 'import'
+  | 'seed';
+
+export const REVISION_ORIGINS: RevisionOrigin[] = [
+  'chat', 'url', 'upload', 'crawl', 'search', 'feedback', 'correction', 'api', 'merge', 'rollback', 'import', 'seed'
+];
+
+// Alteração de um conhecimento: quem fez, por quê, de onde veio e o que mudou
+interface IKnowledgeRevision {
+  tenant: string;
+  knowledgeId: Types.ObjectId;
+  action: RevisionAction;
+  // Chave de API que fez a alteração ('master', 'anonymous' ou 'system')
+  actor: string;
+  origin: RevisionOrigin;
+  reason?: string;
+  // Agrupa as alterações de uma mesma operação (ex.: um documento ingerido)
+  batchId?: string;
+  source?: string;
+  // Campos alterados: { campo: { from, to } }
+  diff: Record<string, { from: unknown; to: unknown }>;
+  // Estado da entrada depois da alteração (antes dela, na exclusão)
+  snapshot: Record<string, unknown>;
+  timestamp: Date;
+}
+
+const KnowledgeRevisionSchema = new Schema<IKnowledgeRevision>({
+  tenant: { type: String, required: true },
+  knowledgeId: { type: Schema.Types.ObjectId, required: true },
+  action: { type: String, enum: ['create', 'update', 'delete'], required: true },
+  actor: { type: String, required: true },
+  origin: { type: String, enum: REVISION_ORIGINS, required: true },
+  reason: String,
+  batchId: String,
+  source: String,
+  diff: { type: Schema.Types.Mixed, default: {} },
+  snapshot: { type: Schema.Types.Mixed, default: {} },
+  timestamp: { type: Date, default: Date.now }
+}, { minimize: false });
+
+KnowledgeRevisionSchema.index({ tenant: 1, knowledgeId: 1, timestamp: 1 });
+KnowledgeRevisionSchema.index({ tenant: 1, source: 1, timestamp: -1 });
+KnowledgeRevisionSchema.index({ tenant: 1, batchId: 1 });
+KnowledgeRevisionSchema.index({ tenant: 1, timestamp: -1 });
+
+export const KnowledgeRevision = model<IKnowledgeRevision>('KnowledgeRevision', KnowledgeRevisionSchema);
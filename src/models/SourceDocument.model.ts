@@ -0,0 +1,29 @@
+import { Schema, model } from 'mongoose';
+
+// Documento de origem (PDF, página web, upload) cujo texto foi dividido
+// em passagens armazenadas como Knowledge do tipo 'passage'
+interface ISourceDocument {
+  tenant: string;
+  source: string;
+  title?: string;
+  mimeType?: string;
+  pageCount?: number;
+  length: number;
+  passageCount: number;
+  timestamp: Date;
+}
+
+const SourceDocumentSchema = new Schema<ISourceDocument>({
+  tenant: { type: String, required: true },
+  source: { type: String, required: true },
+  title: String,
+  mimeType: String,
+  pageCount: Number,
+  length: { type: Number, default: 0 },
+  passageCount: { type: Number, default: 0 },
+  timestamp: { type: Date, default: Date.now }
+});
+
+SourceDocumentSchema.index({ tenant: 1, source: 1 });
+
+export const SourceDocument = model<ISourceDocument>('SourceDocument', SourceDocumentSchema);
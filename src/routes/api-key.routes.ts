@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { apiKeyController } from '../controllers/api-key.controller';
+import { requireRole } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validate.middleware';
+import { apiKeySchemas } from '../schemas/api-key.schema';
+
+const router = Router();
+
+router.use(requireRole('admin'));
+router.post('/', validate(apiKeySchemas.issue), apiKeyController.issue);
+router.get('/', validate(apiKeySchemas.list), apiKeyController.list);
+router.delete('/:id', validate(apiKeySchemas.revoke), apiKeyController.revoke);
+
+export const apiKeyRoutes = router;
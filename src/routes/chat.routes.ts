@@ -1,8 +1,14 @@
 import { Router } from 'express';
 import { chatController } from '../controllers/chat.controller';
+import { validate } from '../middlewares/validate.middleware';
+import { chatRateLimit } from '../middlewares/rate-limit.middleware';
+import { chatSchemas } from '../schemas/chat.schema';
 
 const router = Router();
 
-router.post('/', chatController.chat);
+router.post('/', chatRateLimit, validate(chatSchemas.post), chatController.chat);
+// Streaming por SSE; GET permite usar EventSource no navegador
+router.get('/stream', chatRateLimit, validate(chatSchemas.get), chatController.stream);
+router.post('/stream', chatRateLimit, validate(chatSchemas.post), chatController.stream);
 
 export const chatRoutes = router; 
\ No newline at end of file
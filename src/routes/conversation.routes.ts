@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { conversationController } from '../controllers/conversation.controller';
+import { validate } from '../middlewares/validate.middleware';
+import { conversationSchemas } from '../schemas/conversation.schema';
+
+const router = Router();
+
+router.post('/', validate(conversationSchemas.create), conversationController.create);
+router.get('/', validate(conversationSchemas.list), conversationController.list);
+router.get('/:id', validate(conversationSchemas.get), conversationController.get);
+router.delete('/:id', validate(conversationSchemas.get), conversationController.remove);
+
+export const conversationRoutes = router;
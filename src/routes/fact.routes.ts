@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import { factController } from '../controllers/fact.controller';
+import { requireRole } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validate.middleware';
+import { factSchemas } from '../schemas/fact.schema';
+
+const router = Router();
+
+router.get('/', validate(factSchemas.list), factController.list);
+router.post('/', requireRole('teach'), validate(factSchemas.create), factController.create);
+router.delete('/:id', requireRole('admin'), validate(factSchemas.remove), factController.remove);
+
+export const factRoutes = router;
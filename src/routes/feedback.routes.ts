@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import { feedbackController } from '../controllers/feedback.controller';
+import { requireRole } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validate.middleware';
+import { feedbackSchemas } from '../schemas/feedback.schema';
+
+const router = Router();
+
+router.get('/', requireRole('teach'), validate(feedbackSchemas.list), feedbackController.list);
+router.post('/', validate(feedbackSchemas.create), feedbackController.create);
+
+export const feedbackRoutes = router;
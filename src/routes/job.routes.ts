@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { jobController } from '../controllers/job.controller';
+import { validate } from '../middlewares/validate.middleware';
+import { learnRateLimit } from '../middlewares/rate-limit.middleware';
+import { jobSchemas } from '../schemas/job.schema';
+
+const router = Router();
+
+router.post('/', learnRateLimit, validate(jobSchemas.create), jobController.create);
+router.get('/', validate(jobSchemas.list), jobController.list);
+router.get('/:id', validate(jobSchemas.get), jobController.get);
+router.post('/:id/cancel', validate(jobSchemas.get), jobController.cancel);
+
+export const jobRoutes = router;
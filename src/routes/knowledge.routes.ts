@@ -1,10 +1,31 @@
 import { Router } from 'express';
 import { knowledgeController } from '../controllers/knowledge.controller';
+import { revisionController } from '../controllers/revision.controller';
+import { uploadFiles } from '../middlewares/upload.middleware';
+import { requireRole } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validate.middleware';
+import { learnRateLimit, uploadRateLimit } from '../middlewares/rate-limit.middleware';
+import { knowledgeSchemas as schemas } from '../schemas/knowledge.schema';
+import { jobRoutes } from './job.routes';
 
 const router = Router();
 
-router.post('/learn', knowledgeController.learn);
-router.post('/upload', knowledgeController.upload);
-router.get('/', knowledgeController.list);
+router.post('/learn', requireRole('admin'), learnRateLimit, validate(schemas.learn), knowledgeController.learn);
+router.post('/upload', requireRole('admin'), uploadRateLimit, uploadFiles, validate(schemas.upload), knowledgeController.upload);
+router.get('/', validate(schemas.list), knowledgeController.list);
+router.delete('/', requireRole('admin'), validate(schemas.removeBySource), knowledgeController.removeBySource);
+router.get('/stats', knowledgeController.stats);
+router.get('/export', requireRole('admin'), validate(schemas.export), knowledgeController.export);
+router.post('/import', requireRole('admin'), validate(schemas.import), knowledgeController.import);
+router.get('/duplicates', requireRole('teach'), validate(schemas.duplicates), knowledgeController.duplicates);
+router.post('/duplicates/merge', requireRole('admin'), validate(schemas.merge), knowledgeController.mergeDuplicates);
+router.use('/jobs', requireRole('admin'), jobRoutes);
+router.get('/history', requireRole('teach'), validate(schemas.history), revisionController.list);
+router.post('/history/batches/:batchId/rollback', requireRole('admin'), validate(schemas.rollbackBatch), revisionController.rollbackBatch);
+router.get('/:id', validate(schemas.get), knowledgeController.get);
+router.patch('/:id', requireRole('teach'), validate(schemas.update), knowledgeController.update);
+router.delete('/:id', requireRole('admin'), validate(schemas.remove), knowledgeController.remove);
+router.get('/:id/history', requireRole('teach'), validate(schemas.entryHistory), revisionController.entry);
+router.post('/:id/rollback', requireRole('admin'), validate(schemas.rollbackEntry), revisionController.rollbackEntry);
 
 export const knowledgeRoutes = router; 
\ No newline at end of file
@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import { patternController } from '../controllers/pattern.controller';
+import { requireRole } from '../middlewares/auth.middleware';
+import { validate } from '../middlewares/validate.middleware';
+import { patternSchemas } from '../schemas/pattern.schema';
+
+const router = Router();
+
+router.get('/', validate(patternSchemas.list), patternController.list);
+router.post('/', requireRole('admin'), validate(patternSchemas.create), patternController.create);
+router.post('/test', validate(patternSchemas.test), patternController.test);
+router.patch('/:id', requireRole('admin'), validate(patternSchemas.update), patternController.update);
+router.delete('/:id', requireRole('admin'), validate(patternSchemas.remove), patternController.remove);
+
+export const patternRoutes = router;
@@ -0,0 +1,20 @@
+import { z } from 'zod';
+import { API_KEY_ROLES } from '../services/auth.service';
+import { idParams, oneOf, text } from './common.schema';
+
+export const apiKeySchemas = {
+  issue: {
+    body: z.object({
+      name: text(100),
+      role: oneOf(API_KEY_ROLES),
+      // Só a chave mestra pode emitir chaves de outro tenant
+      tenant: text(100).optional()
+    })
+  },
+  list: {
+    query: z.object({ tenant: z.string().optional() })
+  },
+  revoke: {
+    params: idParams
+  }
+};
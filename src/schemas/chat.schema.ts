@@ -0,0 +1,21 @@
+import { z } from 'zod';
+import { booleanish, objectId, text } from './common.schema';
+
+const chatInput = {
+  message: text(4000),
+  sessionId: objectId.optional(),
+  // Modo detalhado: explica como a resposta foi escolhida
+  debug: booleanish.optional()
+};
+
+export const chatSchemas = {
+  // POST: mensagem no corpo; ?debug=true continua valendo na query string
+  post: {
+    body: z.object(chatInput),
+    query: z.object({ debug: booleanish.optional() })
+  },
+  // GET /stream (EventSource) recebe tudo pela query string
+  get: {
+    query: z.object(chatInput)
+  }
+};
@@ -0,0 +1,45 @@
+import { z } from 'zod';
+import { isValidObjectId } from 'mongoose';
+
+// Blocos reutilizados pelos schemas das rotas
+
+export const objectId = z.string().refine(value => isValidObjectId(value), 'Id inválido');
+
+export const idParams = z.object({ id: objectId });
+
+export const text = (max = 500) => z.string().trim().min(1).max(max);
+
+// Enum a partir das listas já exportadas pelos serviços e modelos
+export const oneOf = <T extends string>(values: readonly T[]) => z.enum(values as [T, ...T[]]);
+
+// Booleanos chegam como true/false no JSON e como texto na query string
+export const booleanish = z
+  .union([z.boolean(), z.enum(['true', 'false', '1', '0'])])
+  .transform(value => value === true || value === 'true' || value === '1');
+
+export const numberish = z
+  .union([z.number(), z.string().trim().regex(/^-?\d+(\.\d+)?$/, 'Deve ser um número')])
+  .transform(Number);
+
+export const dateString = z.string().refine(value => !Number.isNaN(new Date(value).getTime()), 'Data inválida');
+
+export const httpUrl = z.string().trim().url().refine(
+  value => /^https?:\/\//i.test(value),
+  'Deve ser uma URL http ou https'
+);
+
+// Motivo registrado no histórico de alterações
+export const reason = z.string().trim().max(500).optional();
+
+// Sem os parâmetros, a primeira página com 20 itens
+export const pagination = {
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(20)
+};
+
+export interface Page {
+  page: number;
+  limit: number;
+}
+
+export const reasonQuery = z.object({ reason });
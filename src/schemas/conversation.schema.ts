@@ -0,0 +1,14 @@
+import { z } from 'zod';
+import { idParams, pagination } from './common.schema';
+
+export const conversationSchemas = {
+  list: {
+    query: z.object(pagination)
+  },
+  create: {
+    body: z.object({ title: z.string().trim().max(200).optional() })
+  },
+  get: {
+    params: idParams
+  }
+};
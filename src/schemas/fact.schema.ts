@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { idParams, text } from './common.schema';
+
+export const factSchemas = {
+  list: {
+    query: z.object({
+      subject: z.string().optional(),
+      predicate: z.string().optional(),
+      object: z.string().optional()
+    })
+  },
+  create: {
+    body: z.object({
+      subject: text(200),
+      predicate: text(100),
+      object: text(500)
+    })
+  },
+  remove: {
+    params: idParams
+  }
+};
@@ -0,0 +1,26 @@
+import { z } from 'zod';
+import { objectId, text } from './common.schema';
+
+const rating = z.enum(['positive', 'negative']);
+
+export const feedbackSchemas = {
+  create: {
+    body: z.object({
+      knowledgeId: objectId,
+      rating: rating.optional(),
+      // Resposta correta: cria conhecimento novo no lugar do avaliado
+      correction: text(10000).optional(),
+      comment: z.string().max(1000).optional(),
+      sessionId: objectId.optional()
+    }).refine(body => body.rating || body.correction, {
+      message: 'Informe rating ou uma correction',
+      path: ['rating']
+    })
+  },
+  list: {
+    query: z.object({
+      knowledgeId: objectId.optional(),
+      rating: rating.optional()
+    })
+  }
+};
@@ -0,0 +1,22 @@
+import { z } from 'zod';
+import { crawlOptions } from './knowledge.schema';
+import { httpUrl, idParams, reason } from './common.schema';
+
+export const jobSchemas = {
+  create: {
+    body: z.object({
+      url: httpUrl.optional(),
+      urls: z.array(httpUrl).min(1).max(100).optional(),
+      crawl: crawlOptions.optional(),
+      reason
+    }).refine(body => body.url || body.urls, { message: 'Informe url ou uma lista de urls', path: ['url'] })
+  },
+  list: {
+    query: z.object({
+      status: z.enum(['queued', 'running', 'completed', 'failed', 'cancelled']).optional()
+    })
+  },
+  get: {
+    params: idParams
+  }
+};
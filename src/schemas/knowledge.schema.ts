@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import { IMPORT_STRATEGIES } from '../services/knowledge-transfer.service';
+import { REVISION_ORIGINS } from '../models/KnowledgeRevision.model';
+import {
+  booleanish,
+  dateString,
+  httpUrl,
+  idParams,
+  numberish,
+  objectId,
+  oneOf,
+  pagination,
+  reason,
+  reasonQuery,
+  text
+} from './common.schema';
+
+// Os limites máximos de profundidade e páginas são checados pelo crawler
+const patternList = z.union([z.string(), z.array(z.string())]);
+export const crawlOptions = z.union([
+  z.boolean(),
+  z.object({
+    maxDepth: numberish.optional(),
+    maxPages: numberish.optional(),
+    sameOrigin: z.boolean().optional(),
+    include: patternList.optional(),
+    exclude: patternList.optional(),
+    respectRobots: z.boolean().optional(),
+    useSitemap: z.boolean().optional(),
+    render: z.boolean().optional()
+  }).strict()
+]);
+
+// Mesmos filtros de buildKnowledgeFilter
+const filterQuery = {
+  source: z.string().optional(),
+  type: z.string().optional(),
+  category: z.string().optional(),
+  path: z.string().optional(),
+  language: z.string().optional(),
+  from: dateString.optional(),
+  to: dateString.optional(),
+  q: z.string().trim().max(500).optional(),
+  flagged: booleanish.optional()
+};
+
+const importOptions = {
+  strategy: oneOf(IMPORT_STRATEGIES).optional(),
+  dryRun: booleanish.optional(),
+  reason
+};
+
+export const knowledgeSchemas = {
+  learn: {
+    body: z.object({
+      url: httpUrl,
+      background: booleanish.optional(),
+      crawl: crawlOptions.optional(),
+      reason
+    })
+  },
+  upload: {
+    body: z.object({ reason })
+  },
+  list: {
+    query: z.object({ ...filterQuery, ...pagination })
+  },
+  removeBySource: {
+    query: z.object({ source: text(), reason })
+  },
+  export: {
+    query: z.object({ ...filterQuery, format: z.enum(['ndjson', 'json']).optional() })
+  },
+  // NDJSON (texto), array JSON ou { records }; as opções podem vir no objeto ou na query
+  import: {
+    query: z.object(importOptions),
+    body: z.union([
+      z.string(),
+      z.array(z.unknown()),
+      z.object({ records: z.array(z.unknown()), ...importOptions })
+    ])
+  },
+  duplicates: {
+    query: z.object({
+      limit: z.coerce.number().int().min(1).max(500).optional(),
+      type: z.enum(['exact', 'near']).optional()
+    })
+  },
+  merge: {
+    body: z.object({
+      ids: z.array(objectId).min(2),
+      keep: objectId.optional(),
+      reason
+    })
+  },
+  get: {
+    params: idParams
+  },
+  update: {
+    params: idParams,
+    body: z.object({
+      content: text(10000).optional(),
+      term: z.string().trim().optional(),
+      type: text(100).optional(),
+      category: text(100).optional(),
+      language: text(10).optional(),
+      source: text().optional(),
+      path: z.string().trim().max(500).optional(),
+      confidence: z.number().min(0).max(1).optional(),
+      flagged: z.boolean().optional(),
+      reason
+    })
+  },
+  remove: {
+    params: idParams,
+    query: reasonQuery
+  },
+  history: {
+    query: z.object({
+      source: z.string().optional(),
+      batchId: z.string().optional(),
+      actor: z.string().optional(),
+      origin: oneOf(REVISION_ORIGINS).optional(),
+      action: z.enum(['create', 'update', 'delete']).optional(),
+      ...pagination
+    })
+  },
+  entryHistory: {
+    params: idParams
+  },
+  rollbackEntry: {
+    params: idParams,
+    body: z.object({ revisionId: objectId, reason })
+  },
+  rollbackBatch: {
+    params: z.object({ batchId: text(100) }),
+    body: z.object({ reason })
+  }
+};
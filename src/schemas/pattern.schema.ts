@@ -0,0 +1,36 @@
+import { z } from 'zod';
+import { idParams, numberish, pagination, reason, reasonQuery, text } from './common.schema';
+
+// A expressão regular em si é validada por validatePattern
+const patternFields = {
+  pattern: text(),
+  resultType: text(100),
+  resultCategory: text(100),
+  priority: numberish.optional()
+};
+
+export const patternSchemas = {
+  list: {
+    query: z.object(pagination)
+  },
+  create: {
+    body: z.object({ ...patternFields, reason })
+  },
+  update: {
+    params: idParams,
+    body: z.object({
+      pattern: patternFields.pattern.optional(),
+      resultType: patternFields.resultType.optional(),
+      resultCategory: patternFields.resultCategory.optional(),
+      priority: patternFields.priority,
+      reason
+    })
+  },
+  remove: {
+    params: idParams,
+    query: reasonQuery
+  },
+  test: {
+    body: z.object({ text: text(10000) })
+  }
+};
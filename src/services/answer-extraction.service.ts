@@ -0,0 +1,217 @@
+import { config } from '../config/config';
+import { normalizeText, tokenize } from './tokenizer.service';
+
+// Respostas extrativas: em vez do conteúdo inteiro da entrada (que pode ser um
+// PDF), devolve as frases que melhor respondem à pergunta. Cada frase é pontuada
+// pela cobertura dos termos da pergunta e pela proximidade entre eles; a
+// resposta traz os offsets no conteúdo e um trecho com os termos destacados.
+
+export interface TextSpan {
+  start: number;
+  end: number;
+}
+
+export interface Citation extends TextSpan {
+  // Posição no documento de origem, quando a entrada é uma passagem de documento
+  documentStart?: number;
+  documentEnd?: number;
+  // Trecho da resposta com os termos da pergunta entre <mark></mark> (HTML escapado)
+  snippet: string;
+  // Ocorrências dos termos da pergunta, em offsets do conteúdo
+  highlights: TextSpan[];
+}
+
+export interface ExtractedAnswer {
+  content: string;
+  score: number;
+  citation: Citation;
+}
+
+export interface ExtractOptions {
+  maxSentences?: number;
+  snippetLength?: number;
+  // Offset do conteúdo dentro do documento de origem
+  documentOffset?: number;
+}
+
+interface Token extends TextSpan {
+  term: string;
+}
+
+interface ScoredSentence extends TextSpan {
+  score: number;
+  tokens: Token[];
+}
+
+// Fim de frase: pontuação seguida de espaço ou fim do texto ("3.5" e "www.x" não quebram), ou quebra de linha
+const SENTENCE_BOUNDARY = /[.!?…]+(?=["')\]]*(\s|$))["')\]]*|\n+/g;
+// Abreviações e iniciais ("Dr. Silva", "J. Costa") não encerram a frase
+const ABBREVIATION = /(?:^|[\s(])(?:dr|dra|sr|sra|srta|prof|profa|exmo|av|pag|art|cap|vol|fig|[A-Z])$/i;
+
+// Frases do texto, sem os espaços das bordas
+export const splitSentences = (text: string): TextSpan[] => {
+  const spans: TextSpan[] = [];
+  const push = (start: number, end: number) => {
+    while (start < end && /\s/.test(text[start])) start++;
+    while (end > start && /\s/.test(text[end - 1])) end--;
+    if (end > start) spans.push({ start, end });
+  };
+
+  let start = 0;
+  let match: RegExpExecArray | null;
+  SENTENCE_BOUNDARY.lastIndex = 0;
+  while ((match = SENTENCE_BOUNDARY.exec(text)) !== null) {
+    if (match[0] === '.' && ABBREVIATION.test(text.slice(Math.max(0, match.index - 8), match.index))) continue;
+    const end = match[0].startsWith('\n') ? match.index : match.index + match[0].length;
+    push(start, end);
+    start = match.index + match[0].length;
+  }
+  push(start, text.length);
+  return spans;
+};
+
+// Palavras do texto com seus offsets; o texto é normalizado caractere a
+// caractere para que os offsets continuem valendo no original
+const tokenizeWithOffsets = (text: string, span: TextSpan): Token[] => {
+  const tokens: Token[] = [];
+  let word = '';
+  let wordStart = span.start;
+
+  const flush = (end: number) => {
+    const [term] = word ? tokenize(word) : [];
+    if (term) tokens.push({ term, start: wordStart, end });
+    word = '';
+  };
+
+  for (let index = span.start; index < span.end; index++) {
+    const normalized = normalizeText(text[index]);
+    if (/^[a-z0-9]*$/.test(normalized) && (normalized || word)) {
+      if (!word) wordStart = index;
+      word += normalized;
+    } else {
+      flush(index);
+    }
+  }
+  flush(span.end);
+  return tokens;
+};
+
+// Mesma palavra ou mesma raiz aproximada ("capital" e "capitais")
+const sameTerm = (a: string, b: string) => {
+  return a === b || (a.length >= 5 && b.length >= 5 && a.slice(0, 5) === b.slice(0, 5));
+};
+
+// Menor janela (em palavras) que contém todos os termos distintos encontrados
+const smallestWindow = (positions: Map<string, number[]>) => {
+  const events = Array.from(positions.entries())
+    .flatMap(([term, indexes]) => indexes.map(index => ({ term, index })))
+    .sort((a, b) => a.index - b.index);
+  const counts = new Map<string, number>();
+  let best = Infinity;
+  let left = 0;
+
+  for (const event of events) {
+    counts.set(event.term, (counts.get(event.term) || 0) + 1);
+    while (counts.size === positions.size) {
+      best = Math.min(best, event.index - events[left].index + 1);
+      const term = events[left++].term;
+      const count = counts.get(term)! - 1;
+      if (count === 0) counts.delete(term);
+      else counts.set(term, count);
+    }
+  }
+  return best;
+};
+
+const scoreSentence = (queryTerms: string[], tokens: Token[]) => {
+  const positions = new Map<string, number[]>();
+  tokens.forEach((token, index) => {
+    const term = queryTerms.find(query => sameTerm(query, token.term));
+    if (term) positions.set(term, [...(positions.get(term) || []), index]);
+  });
+  if (positions.size === 0) return 0;
+
+  const coverage = positions.size / queryTerms.length;
+  // 1 quando os termos aparecem lado a lado
+  const proximity = positions.size / smallestWindow(positions);
+  return coverage * (0.7 + 0.3 * proximity);
+};
+
+const escapeHtml = (text: string) => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+// Recorta a resposta em torno do primeiro destaque e marca os termos
+const buildSnippet = (text: string, span: TextSpan, highlights: TextSpan[], maxLength: number) => {
+  let start = span.start;
+  let end = span.end;
+  if (end - start > maxLength) {
+    const anchor = highlights.length > 0 ? highlights[0].start : start;
+    start = Math.max(span.start, Math.min(anchor - Math.floor(maxLength / 4), span.end - maxLength));
+    end = start + maxLength;
+    // Não corta palavras ao meio
+    while (start > span.start && /\S/.test(text[start - 1])) start--;
+    while (end < span.end && /\S/.test(text[end])) end++;
+  }
+
+  let snippet = '';
+  let cursor = start;
+  for (const highlight of highlights) {
+    if (highlight.start < start || highlight.end > end) continue;
+    snippet += `${escapeHtml(text.slice(cursor, highlight.start))}<mark>${escapeHtml(text.slice(highlight.start, highlight.end))}</mark>`;
+    cursor = highlight.end;
+  }
+  snippet += escapeHtml(text.slice(cursor, end));
+
+  return `${start > span.start ? '…' : ''}${snippet}${end < span.end ? '…' : ''}`;
+};
+
+// Escolhe de uma a maxSentences frases consecutivas: a melhor e as vizinhas
+// que também respondem à pergunta. Sem termos em comum não há o que extrair
+// (null), e quem chamou decide o que fazer com a entrada.
+export const extractAnswer = (question: string, text: string, options: ExtractOptions = {}): ExtractedAnswer | null => {
+  const maxSentences = options.maxSentences || config.answers.maxSentences;
+  const snippetLength = options.snippetLength || config.answers.snippetLength;
+
+  const sentences: ScoredSentence[] = splitSentences(text).map(span => ({ ...span, score: 0, tokens: [] }));
+  if (sentences.length === 0) return null;
+
+  const queryTerms = Array.from(new Set(tokenize(question)));
+  for (const sentence of sentences) {
+    sentence.tokens = tokenizeWithOffsets(text, sentence);
+    sentence.score = queryTerms.length > 0 ? scoreSentence(queryTerms, sentence.tokens) : 0;
+  }
+
+  const best = sentences.reduce((top, sentence, index) => (sentence.score > sentences[top].score ? index : top), 0);
+  if (sentences[best].score === 0) return null;
+
+  let first = best;
+  let last = best;
+  const minScore = sentences[best].score * config.answers.neighborRatio;
+  while (last - first + 1 < maxSentences) {
+    const before = first > 0 ? sentences[first - 1].score : 0;
+    const after = last < sentences.length - 1 ? sentences[last + 1].score : 0;
+    if (Math.max(before, after) < minScore || Math.max(before, after) === 0) break;
+    if (after >= before) last++;
+    else first--;
+  }
+
+  const span = { start: sentences[first].start, end: sentences[last].end };
+  const highlights = sentences
+    .slice(first, last + 1)
+    .flatMap(sentence => sentence.tokens)
+    .filter(token => queryTerms.some(term => sameTerm(term, token.term)))
+    .map(({ start, end }) => ({ start, end }));
+  const offset = options.documentOffset;
+
+  return {
+    content: text.slice(span.start, span.end),
+    score: sentences[best].score,
+    citation: {
+      ...span,
+      ...(offset !== undefined && { documentStart: offset + span.start, documentEnd: offset + span.end }),
+      snippet: buildSnippet(text, span, highlights, snippetLength),
+      highlights
+    }
+  };
+};
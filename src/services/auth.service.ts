@@ -0,0 +1,123 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { FilterQuery, Model, UpdateQuery } from 'mongoose';
+import { ApiKey, ApiKeyRole } from '../models/ApiKey.model';
+import { Knowledge } from '../models/Knowledge.model';
+import { SourceDocument } from '../models/SourceDocument.model';
+import { Fact } from '../models/Fact.model';
+import { Conversation } from '../models/Conversation.model';
+import { IngestionJob } from '../models/IngestionJob.model';
+import { Feedback } from '../models/Feedback.model';
+import { config } from '../config/config';
+
+// Autenticação por chave de API. Cada chave pertence a um tenant, que isola
+// a base de conhecimento, e tem um papel: chat (somente leitura), teach
+// (ensina e corrige) ou admin (ingestão, exclusão e gestão de chaves).
+
+export const API_KEY_ROLES: ApiKeyRole[] = ['chat', 'teach', 'admin'];
+
+export interface AuthContext {
+  tenant: string;
+  role: ApiKeyRole;
+  keyId?: string;
+  // Chave mestra: administra chaves de qualquer tenant
+  master: boolean;
+}
+
+export class AuthConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthConfigError';
+  }
+}
+
+const KEY_PREFIX = 'ck_';
+
+const hashKey = (key: string) => createHash('sha256').update(key).digest('hex');
+
+// Cada papel inclui as permissões dos anteriores
+export const hasRole = (auth: AuthContext, required: ApiKeyRole) => {
+  return API_KEY_ROLES.indexOf(auth.role) >= API_KEY_ROLES.indexOf(required);
+};
+
+// Filtro das conversas visíveis para a chave: chaves de chat só acessam as
+// conversas que criaram; teach e admin, todas as do tenant
+export const conversationScope = (auth: AuthContext) => ({
+  tenant: auth.tenant,
+  ...(!hasRole(auth, 'teach') && { keyId: auth.keyId })
+});
+
+export const issueApiKey = async (name: string, tenant: string, role: ApiKeyRole) => {
+  const key = KEY_PREFIX + randomBytes(24).toString('base64url');
+  const apiKey = await ApiKey.create({
+    name,
+    tenant,
+    role,
+    keyHash: hashKey(key),
+    prefix: key.slice(0, KEY_PREFIX.length + 6)
+  });
+  console.log(`🔑 Chave ${apiKey.prefix}… emitida para ${tenant} (${role})`);
+  return { apiKey, key };
+};
+
+export const revokeApiKey = (id: string, tenant?: string) => {
+  return ApiKey.findOneAndUpdate(
+    { _id: id, revokedAt: null, ...(tenant && { tenant }) },
+    { $set: { revokedAt: new Date() } },
+    { new: true }
+  );
+};
+
+const isMasterKey = (key: string) => {
+  const master = config.auth.masterKey;
+  if (!master) return false;
+  const a = Buffer.from(hashKey(key));
+  const b = Buffer.from(hashKey(master));
+  return timingSafeEqual(a, b);
+};
+
+// Com a autenticação ligada, a chave mestra é o único jeito de emitir as
+// primeiras chaves; sem ela toda a API responderia 401
+export const assertAuthConfigured = () => {
+  if (config.auth.enabled && !config.auth.masterKey) {
+    throw new AuthConfigError(
+      'Autenticação ativa sem MASTER_API_KEY: defina a chave mestra para emitir as chaves de API ' +
+      'ou use AUTH_ENABLED=false para desligar a autenticação'
+    );
+  }
+};
+
+// Retorna null para chaves desconhecidas ou revogadas
+export const resolveApiKey = async (key: string): Promise<AuthContext | null> => {
+  if (isMasterKey(key)) {
+    return { tenant: config.auth.defaultTenant, role: 'admin', master: true };
+  }
+
+  const apiKey = await ApiKey.findOneAndUpdate(
+    { keyHash: hashKey(key), revokedAt: null },
+    { $set: { lastUsedAt: new Date() } },
+    { new: true }
+  );
+  if (!apiKey) return null;
+
+  return { tenant: apiKey.tenant, role: apiKey.role, keyId: apiKey.id, master: false };
+};
+
+// Dados gravados antes da separação por tenant passam a pertencer ao tenant padrão
+const moveToDefaultTenant = async <T extends { tenant: string }>(model: Model<T>) => {
+  const { modifiedCount } = await model.updateMany(
+    { tenant: { $exists: false } } as FilterQuery<T>,
+    { $set: { tenant: config.auth.defaultTenant } } as UpdateQuery<T>
+  );
+  if (modifiedCount > 0) {
+    console.log(`🏷️ ${modifiedCount} registros de ${model.modelName} movidos para o tenant ${config.auth.defaultTenant}`);
+  }
+};
+
+export const assignDefaultTenant = async () => {
+  await moveToDefaultTenant(Knowledge);
+  await moveToDefaultTenant(SourceDocument);
+  await moveToDefaultTenant(Fact);
+  await moveToDefaultTenant(Conversation);
+  await moveToDefaultTenant(IngestionJob);
+  await moveToDefaultTenant(Feedback);
+};
@@ -0,0 +1,133 @@
+// Divide textos longos em passagens sobrepostas, respeitando parágrafos e frases.
+// Os offsets são relativos ao texto completo do documento.
+
+export interface Passage {
+  content: string;
+  startOffset: number;
+  endOffset: number;
+  page?: number;
+}
+
+export interface ChunkOptions {
+  maxLength?: number;
+  overlap?: number;
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+const DEFAULT_MAX_LENGTH = 1200;
+const DEFAULT_OVERLAP = 200;
+
+// Separador usado ao concatenar páginas de um PDF
+export const PAGE_SEPARATOR = '\n\n';
+
+const findSpans = (text: string, pattern: RegExp, offset: number): Span[] => {
+  const spans: Span[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const leading = match[0].length - match[0].trimStart().length;
+    const trimmed = match[0].trim();
+    if (trimmed) {
+      const start = offset + match.index + leading;
+      spans.push({ start, end: start + trimmed.length });
+    }
+  }
+  return spans;
+};
+
+// Quebra uma frase longa demais em limites de palavra
+const splitLongSpan = (text: string, span: Span, maxLength: number): Span[] => {
+  const spans: Span[] = [];
+  let start = span.start;
+  while (span.end - start > maxLength) {
+    const window = text.slice(start, start + maxLength);
+    const lastSpace = window.lastIndexOf(' ');
+    const end = start + (lastSpace > maxLength / 2 ? lastSpace : maxLength);
+    spans.push({ start, end });
+    start = end;
+    while (start < span.end && /\s/.test(text[start])) start++;
+  }
+  if (start < span.end) {
+    spans.push({ start, end: span.end });
+  }
+  return spans;
+};
+
+// Segmentos atômicos: parágrafos inteiros ou, se forem longos, suas frases
+const segment = (text: string, maxLength: number): Span[] => {
+  const segments: Span[] = [];
+  const paragraphs = findSpans(text, /[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g, 0);
+
+  for (const paragraph of paragraphs) {
+    if (paragraph.end - paragraph.start <= maxLength) {
+      segments.push(paragraph);
+      continue;
+    }
+
+    const body = text.slice(paragraph.start, paragraph.end);
+    const sentences = findSpans(body, /[^.!?]+(?:[.!?]+(?=\s|$)|$)|[.!?]+/g, paragraph.start);
+    for (const sentence of sentences) {
+      if (sentence.end - sentence.start <= maxLength) {
+        segments.push(sentence);
+      } else {
+        segments.push(...splitLongSpan(text, sentence, maxLength));
+      }
+    }
+  }
+
+  return segments;
+};
+
+export const chunkText = (text: string, options: ChunkOptions = {}): Passage[] => {
+  const maxLength = options.maxLength || DEFAULT_MAX_LENGTH;
+  const overlap = Math.min(options.overlap ?? DEFAULT_OVERLAP, Math.floor(maxLength / 2));
+  const segments = segment(text, maxLength);
+  const passages: Passage[] = [];
+
+  let first = 0;
+  while (first < segments.length) {
+    const start = segments[first].start;
+    let last = first;
+    while (last + 1 < segments.length && segments[last + 1].end - start <= maxLength) {
+      last++;
+    }
+
+    const end = segments[last].end;
+    passages.push({ content: text.slice(start, end), startOffset: start, endOffset: end });
+
+    if (last + 1 >= segments.length) break;
+
+    // Recua alguns segmentos para que a próxima passagem se sobreponha a esta
+    let next = last + 1;
+    while (next - 1 > first && end - segments[next - 1].start <= overlap) {
+      next--;
+    }
+    first = next;
+  }
+
+  return passages;
+};
+
+// Divide as páginas de um PDF mantendo o número da página de cada passagem.
+// Os offsets consideram as páginas concatenadas com PAGE_SEPARATOR.
+export const chunkPages = (pages: string[], options: ChunkOptions = {}): Passage[] => {
+  const passages: Passage[] = [];
+  let offset = 0;
+
+  pages.forEach((pageText, index) => {
+    for (const passage of chunkText(pageText, options)) {
+      passages.push({
+        ...passage,
+        startOffset: passage.startOffset + offset,
+        endOffset: passage.endOffset + offset,
+        page: index + 1
+      });
+    }
+    offset += pageText.length + PAGE_SEPARATOR.length;
+  });
+
+  return passages;
+};
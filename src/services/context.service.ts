@@ -0,0 +1,130 @@
+import { IConversationTurn } from '../models/Conversation.model';
+import { isGreeting } from './greeting.service';
+
+// Preposições (e contrações) que costumam introduzir a entidade da pergunta,
+// ex.: "capital DO Brasil", "presidente DE Portugal", "clima NA França"
+const PREPOSITION = '(?:de|do|da|dos|das|em|no|na|nos|nas)';
+
+// Pronomes que se referem à entidade mencionada anteriormente
+const PRONOUNS: Array<[RegExp, (entity: string) => string]> = [
+  [/\b(deles|delas|dele|dela|disso|disto)(?![\wÀ-ÿ])/gi, entity => `de ${entity}`],
+  [/\b(neles|nelas|nele|nela|nisso|nisto|lá)(?![\wÀ-ÿ])/gi, entity => `em ${entity}`],
+  [/\b(eles|elas|ele|ela|isso|isto)(?![\wÀ-ÿ])/gi, entity => entity]
+];
+
+// "e de Portugal?", "e Portugal?", "e na França?", "e o de Portugal?"
+const FOLLOW_UP_PATTERN = new RegExp(`^e\\s+(?:(o|a|os|as)\\s+)?(${PREPOSITION}\\s+)?(.+?)\\s*\\??$`, 'i');
+
+// Comandos ("aprenda ...", "corrija: ...", "@search ...") são usados ao pé da letra
+const COMMAND = /^\s*(aprenda\b|corrija\s*:|@)/i;
+
+// Contrações de "de" com o artigo: "e o Japão?" -> "do Japão"
+const DE_CONTRACTIONS: Record<string, string> = { o: 'do', a: 'da', os: 'dos', as: 'das' };
+
+const stripPunctuation = (text: string) => text.replace(/[?!.]+$/g, '').trim();
+
+// Última sequência de palavras capitalizadas que não inicia a frase,
+// ou então o complemento da última preposição
+export const extractEntity = (text: string): string | null => {
+  const clean = stripPunctuation(text);
+  const capitalized = /(?:^|\s)([A-ZÀ-Ý][\wÀ-ÿ-]*(?:\s+(?:d[eoa]s?\s+)?[A-ZÀ-Ý][\wÀ-ÿ-]*)*)/g;
+
+  let entity: string | null = null;
+  let match: RegExpExecArray | null;
+  while ((match = capitalized.exec(clean)) !== null) {
+    if (match.index > 0) {
+      entity = match[1];
+    }
+  }
+  if (entity) {
+    return entity;
+  }
+
+  const prepositional = clean.match(new RegExp(`\\b${PREPOSITION}\\s+(.+)$`, 'i'));
+  return prepositional ? prepositional[1].trim() : null;
+};
+
+const lastUserQuestion = (turns: IConversationTurn[]): string | null => {
+  for (let i = turns.length - 1; i >= 0; i--) {
+    if (turns[i].role === 'user') {
+      return turns[i].resolvedMessage || turns[i].content;
+    }
+  }
+  return null;
+};
+
+const lastEntity = (turns: IConversationTurn[]): string | null => {
+  for (let i = turns.length - 1; i >= 0; i--) {
+    if (turns[i].role !== 'user') continue;
+    const entity = extractEntity(turns[i].resolvedMessage || turns[i].content);
+    if (entity) return entity;
+  }
+  return null;
+};
+
+// Reescreve uma pergunta elíptica usando a pergunta anterior como modelo:
+// "qual a capital do Brasil?" + "e de Portugal?" -> "qual a capital de Portugal?"
+const resolveEllipsis = (message: string, previous: string): string | null => {
+  const followUp = stripPunctuation(message).match(FOLLOW_UP_PATTERN);
+  if (!followUp) {
+    return null;
+  }
+
+  const article = followUp[1];
+  const preposition = followUp[2]?.trim();
+  const entity = followUp[3].trim();
+  const base = stripPunctuation(previous);
+
+  // A preposição é a da continuação ("e na França?"); sem ela, "de", contraída
+  // com o artigo se houver. A contração da pergunta anterior ("do Brasil") não serve.
+  const prepositional = new RegExp(`\\b${PREPOSITION}\\s+(?:(?!\\b${PREPOSITION}\\b).)+$`, 'i');
+  if (prepositional.test(base)) {
+    const replacement = preposition || (article ? DE_CONTRACTIONS[article.toLowerCase()] : 'de');
+    return base.replace(prepositional, () => `${replacement} ${entity}`) + '?';
+  }
+
+  const previousEntity = extractEntity(base);
+  if (previousEntity) {
+    const escaped = previousEntity.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const withArticle = new RegExp(`\\b(?:(o|a|os|as)\\s+)?${escaped}`);
+    return base.replace(withArticle, (_, oldArticle) => {
+      const newArticle = article || oldArticle;
+      return newArticle ? `${newArticle} ${entity}` : entity;
+    }) + '?';
+  }
+
+  return `${base} ${preposition ? `${preposition} ` : ''}${entity}?`;
+};
+
+const resolvePronouns = (message: string, entity: string): string => {
+  let resolved = message;
+  for (const [pattern, replacement] of PRONOUNS) {
+    resolved = resolved.replace(pattern, () => replacement(entity));
+  }
+  return resolved;
+};
+
+// Resolve continuações e pronomes com base nos turnos anteriores da conversa.
+// Retorna a própria mensagem quando não há contexto aplicável.
+export const resolveFollowUp = (message: string, turns: IConversationTurn[]): string => {
+  if (COMMAND.test(message) || isGreeting(message)) {
+    return message;
+  }
+
+  const previous = lastUserQuestion(turns);
+  if (!previous) {
+    return message;
+  }
+
+  const elliptical = resolveEllipsis(message, previous);
+  if (elliptical) {
+    return elliptical;
+  }
+
+  const entity = lastEntity(turns);
+  if (entity) {
+    return resolvePronouns(message, entity);
+  }
+
+  return message;
+};
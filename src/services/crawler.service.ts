@@ -0,0 +1,382 @@
+import * as cheerio from 'cheerio';
+import { config } from '../config/config';
+import { SourceDocument } from '../models/SourceDocument.model';
+import { ingestDocument, IngestionResult, normalizeUrl } from './ingestion.service';
+import { extractHtmlText, extractPdfPages } from './extraction.service';
+import { validatePattern } from './pattern.service';
+import { RevisionContext } from './revision.service';
+import { detectResourceFormat, fetchUrl, FetchedResource, FetchError } from './fetch.service';
+
+// Rastreamento limitado de um site: segue links a partir de uma URL inicial
+// (e do sitemap.xml), respeitando profundidade, quantidade de páginas, origem,
+// padrões de inclusão/exclusão e o robots.txt. Cada página vira um documento.
+
+export interface CrawlOptions {
+  maxDepth: number;
+  maxPages: number;
+  sameOrigin: boolean;
+  // Expressões regulares aplicadas à URL completa
+  include: string[];
+  exclude: string[];
+  respectRobots: boolean;
+  useSitemap: boolean;
+  // Renderiza as páginas HTML num navegador headless (páginas que dependem de JavaScript)
+  render: boolean;
+}
+
+export interface CrawlResult {
+  startUrl: string;
+  pagesVisited: number;
+  documents: IngestionResult[];
+  skipped: Array<{ url: string; reason: string }>;
+  errors: Array<{ url: string; error: string }>;
+}
+
+export class CrawlOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CrawlOptionsError';
+  }
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: RegExp;
+  length: number;
+}
+
+interface RobotsPolicy {
+  rules: RobotsRule[];
+  sitemaps: string[];
+}
+
+interface Renderer {
+  render(resource: FetchedResource): Promise<string>;
+  close(): Promise<void>;
+}
+
+const toInteger = (value: unknown, fallback: number, max: number, name: string) => {
+  if (value === undefined || value === null || value === '') return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0 || number > max) {
+    throw new CrawlOptionsError(`${name} deve ser um inteiro entre 0 e ${max}`);
+  }
+  return number;
+};
+
+const toPatternList = (value: unknown, name: string): string[] => {
+  if (value === undefined || value === null) return [];
+  const list = Array.isArray(value) ? value : [value];
+  return list.map(pattern => {
+    try {
+      return validatePattern(pattern);
+    } catch (error) {
+      throw new CrawlOptionsError(`${name}: ${error.message}`);
+    }
+  });
+};
+
+// Valida as opções recebidas pela API e completa com os valores padrão
+export const parseCrawlOptions = (input: any): CrawlOptions => {
+  const options = input && typeof input === 'object' ? input : {};
+  return {
+    maxDepth: toInteger(options.maxDepth, config.crawler.maxDepth, config.crawler.maxDepthLimit, 'maxDepth'),
+    maxPages: Math.max(1, toInteger(options.maxPages, config.crawler.maxPages, config.crawler.maxPagesLimit, 'maxPages')),
+    sameOrigin: options.sameOrigin !== false,
+    include: toPatternList(options.include, 'include'),
+    exclude: toPatternList(options.exclude, 'exclude'),
+    respectRobots: options.respectRobots !== false,
+    useSitemap: options.useSitemap !== false,
+    render: options.render === true
+  };
+};
+
+// Converte um caminho do robots.txt (com * e $) em expressão regular
+const robotsPattern = (path: string) => {
+  const anchored = path.endsWith('$');
+  const body = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${body}${anchored ? '$' : ''}`);
+};
+
+// Usa o grupo do nosso user-agent, ou o grupo "*" quando não houver um específico
+export const parseRobots = (text: string, userAgent: string): RobotsPolicy => {
+  const agent = userAgent.toLowerCase();
+  const groups: Array<{ agents: string[]; rules: RobotsRule[] }> = [];
+  const sitemaps: string[] = [];
+  let current: { agents: string[]; rules: RobotsRule[] } | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+    } else if (field === 'user-agent') {
+      if (!collectingAgents || !current) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      collectingAgents = true;
+    } else if ((field === 'allow' || field === 'disallow') && current) {
+      collectingAgents = false;
+      // "Disallow:" vazio libera tudo
+      if (value) {
+        current.rules.push({ allow: field === 'allow', pattern: robotsPattern(value), length: value.length });
+      }
+    }
+  }
+
+  const specific = groups.filter(group => group.agents.some(name => name !== '*' && agent.includes(name)));
+  const selected = specific.length > 0 ? specific : groups.filter(group => group.agents.includes('*'));
+
+  return { rules: selected.flatMap(group => group.rules), sitemaps };
+};
+
+// A regra mais longa que casar decide; empate favorece Allow
+export const isAllowedByRobots = (policy: RobotsPolicy, url: string) => {
+  const { pathname, search } = new URL(url);
+  const path = pathname + search;
+  let decision: RobotsRule | null = null;
+
+  for (const rule of policy.rules) {
+    if (!rule.pattern.test(path)) continue;
+    if (!decision || rule.length > decision.length || (rule.length === decision.length && rule.allow)) {
+      decision = rule;
+    }
+  }
+  return !decision || decision.allow;
+};
+
+const httpGet = (url: string) => {
+  return fetchUrl(url, {
+    timeout: config.crawler.requestTimeout,
+    maxSize: config.crawler.maxResponseSize,
+    userAgent: config.crawler.userAgent
+  });
+};
+
+const loadRobots = async (origin: string): Promise<RobotsPolicy> => {
+  try {
+    const response = await httpGet(`${origin}/robots.txt`);
+    return parseRobots(response.data.toString('utf-8'), config.crawler.userAgent);
+  } catch {
+    // Sem robots.txt, nada é proibido
+    return { rules: [], sitemaps: [] };
+  }
+};
+
+// Lê sitemaps (inclusive índices de sitemaps) e retorna as URLs das páginas
+const loadSitemapUrls = async (sitemapUrls: string[], limit: number): Promise<string[]> => {
+  const pages: string[] = [];
+  const pending = [...sitemapUrls];
+  const visited = new Set<string>();
+
+  while (pending.length > 0 && pages.length < limit && visited.size < config.crawler.maxSitemaps) {
+    const sitemapUrl = pending.shift()!;
+    if (visited.has(sitemapUrl)) continue;
+    visited.add(sitemapUrl);
+
+    try {
+      const response = await httpGet(sitemapUrl);
+      const $ = cheerio.load(response.data.toString('utf-8'), { xmlMode: true });
+
+      $('sitemapindex > sitemap > loc').each((_, el) => {
+        pending.push($(el).text().trim());
+      });
+      $('urlset > url > loc').each((_, el) => {
+        if (pages.length < limit) pages.push($(el).text().trim());
+      });
+    } catch (error) {
+      console.log('⚠️ Sitemap indisponível:', sitemapUrl, error.message);
+    }
+  }
+
+  return pages;
+};
+
+// Esquemas que não saem para a rede e podem ser carregados pela página
+const LOCAL_SCHEMES = /^(data|blob|about):/i;
+
+// O Chromium não acessa a rede: a página é montada a partir do HTML já baixado
+// e cada recurso que ela pede é baixado pelo fetchUrl (mesmas checagens de rede,
+// redirecionamentos e limites) e entregue pela interceptação. O que a
+// interceptação não vê (WebSocket, WebRTC, service workers) não tem por onde
+// sair: o resolvedor de nomes é desligado, todo tráfego, inclusive para IPs e
+// loopback, vai para um proxy inexistente e o WebRTC só usaria UDP via proxy.
+const BROWSER_ARGS = [
+  '--host-resolver-rules=MAP * ~NOTFOUND',
+  '--proxy-server=127.0.0.1:9',
+  '--proxy-bypass-list=<-loopback>',
+  '--force-webrtc-ip-handling-policy=disable_non_proxied_udp'
+];
+
+const createRenderer = async (): Promise<Renderer> => {
+  const puppeteer = await import('puppeteer');
+  const browser = await puppeteer.launch({ headless: true, args: BROWSER_ARGS });
+
+  return {
+    async render(resource: FetchedResource) {
+      const page = await browser.newPage();
+      try {
+        await page.setUserAgent(config.crawler.userAgent);
+        // Requisições de service workers também passam pela interceptação
+        await page.setBypassServiceWorker(true);
+        await page.setRequestInterception(true);
+        let served = false;
+        page.on('request', request => {
+          const url = request.url();
+          if (LOCAL_SCHEMES.test(url)) {
+            request.continue();
+            return;
+          }
+          if (!/^https?:/i.test(url)) {
+            request.abort('blockedbyclient');
+            return;
+          }
+          // A primeira navegação é a da própria página, já baixada
+          if (!served && request.isNavigationRequest() && request.frame() === page.mainFrame()) {
+            served = true;
+            request.respond({ status: 200, contentType: resource.contentType || 'text/html', body: resource.data });
+            return;
+          }
+          httpGet(url).then(
+            fetched => request.respond({ status: 200, contentType: fetched.contentType, body: fetched.data }),
+            () => request.abort('blockedbyclient')
+          );
+        });
+        await page.goto(resource.url, { waitUntil: 'networkidle2', timeout: config.crawler.renderTimeout });
+        return await page.content();
+      } finally {
+        await page.close();
+      }
+    },
+    close: () => browser.close()
+  };
+};
+
+export const crawlSite = async (
+  tenant: string,
+  startUrl: string,
+  options: CrawlOptions,
+  revision: RevisionContext
+): Promise<CrawlResult> => {
+  const start = normalizeUrl(startUrl);
+  if (!start) {
+    throw new CrawlOptionsError('URL inicial inválida');
+  }
+
+  const result: CrawlResult = { startUrl: start, pagesVisited: 0, documents: [], skipped: [], errors: [] };
+  const origin = new URL(start).origin;
+  const include = options.include.map(pattern => new RegExp(pattern, 'i'));
+  const exclude = options.exclude.map(pattern => new RegExp(pattern, 'i'));
+  const robotsByOrigin = new Map<string, RobotsPolicy>();
+
+  const getRobots = async (url: string) => {
+    const urlOrigin = new URL(url).origin;
+    if (!robotsByOrigin.has(urlOrigin)) {
+      robotsByOrigin.set(urlOrigin, await loadRobots(urlOrigin));
+    }
+    return robotsByOrigin.get(urlOrigin)!;
+  };
+
+  const seen = new Set<string>([start]);
+  const queue: Array<{ url: string; depth: number }> = [{ url: start, depth: 0 }];
+
+  // A página inicial sempre é visitada; os filtros valem para as descobertas
+  const enqueue = (url: string | null, depth: number) => {
+    if (!url || seen.has(url) || depth > options.maxDepth) return;
+    seen.add(url);
+
+    if (options.sameOrigin && new URL(url).origin !== origin) return;
+    if (include.length > 0 && !include.some(pattern => pattern.test(url))) return;
+    if (exclude.some(pattern => pattern.test(url))) return;
+
+    queue.push({ url, depth });
+  };
+
+  if (options.useSitemap) {
+    const robots = options.respectRobots ? await getRobots(start) : { rules: [], sitemaps: [] };
+    const sitemaps = robots.sitemaps.length > 0 ? robots.sitemaps : [`${origin}/sitemap.xml`];
+    const pages = await loadSitemapUrls(sitemaps, options.maxPages);
+    console.log(`🗺️ Sitemap: ${pages.length} URLs encontradas`);
+    pages.forEach(page => enqueue(normalizeUrl(page), 1));
+  }
+
+  const renderer = options.render ? await createRenderer() : null;
+
+  try {
+    while (queue.length > 0 && result.pagesVisited < options.maxPages) {
+      const { url, depth } = queue.shift()!;
+
+      if (options.respectRobots && !isAllowedByRobots(await getRobots(url), url)) {
+        result.skipped.push({ url, reason: 'robots.txt' });
+        continue;
+      }
+
+      result.pagesVisited++;
+      console.log(`🕷️ [${result.pagesVisited}/${options.maxPages}] profundidade ${depth}:`, url);
+
+      try {
+        const response = await httpGet(url);
+        const format = detectResourceFormat(response);
+        const buffer = response.data;
+        const duplicate = await SourceDocument.exists({ tenant, source: url });
+
+        if (format === 'pdf') {
+          if (duplicate) {
+            result.skipped.push({ url, reason: 'duplicate' });
+          } else {
+            const pages = await extractPdfPages(buffer);
+            result.documents.push(await ingestDocument({ tenant, source: url, pages, mimeType: 'application/pdf', revision }));
+          }
+          continue;
+        }
+
+        if (format !== 'html') {
+          result.skipped.push({ url, reason: `content-type ${response.contentType || format}` });
+          continue;
+        }
+
+        const html = renderer ? await renderer.render(response) : buffer.toString('utf-8');
+        const $ = cheerio.load(html);
+        $('a[href]').each((_, el) => {
+          enqueue(normalizeUrl($(el).attr('href')!, url), depth + 1);
+        });
+
+        if (duplicate) {
+          result.skipped.push({ url, reason: 'duplicate' });
+          continue;
+        }
+
+        const { title, text } = extractHtmlText(html);
+        if (!text) {
+          result.skipped.push({ url, reason: 'empty' });
+          continue;
+        }
+        result.documents.push(await ingestDocument({ tenant, source: url, title, text, mimeType: 'text/html', revision }));
+      } catch (error) {
+        // Links para redes bloqueadas, domínios fora da lista ou formatos binários são apenas pulados
+        if (error instanceof FetchError && ['blocked', 'not_allowed', 'unsupported'].includes(error.code)) {
+          result.skipped.push({ url, reason: error.code });
+          continue;
+        }
+        console.error('❌ Erro ao rastrear:', url, error.message);
+        result.errors.push({ url, error: error.message });
+      }
+    }
+  } finally {
+    await renderer?.close();
+  }
+
+  console.log(`✅ Rastreamento de ${start} concluído: ${result.documents.length} documentos`);
+  return result;
+};
@@ -0,0 +1,379 @@
+import { config } from '../config/config';
+import { normalizeText } from './tokenizer.service';
+
+// Perguntas sobre datas e horas: "que dia é hoje?", "quantos dias faltam para
+// o Natal?", "que dia da semana foi 7/9/1822?", "que dia será daqui a 3 semanas?".
+// As contas são feitas com datas de calendário (sem hora) no fuso configurado;
+// o relógio pode ser trocado para que o resultado não dependa do dia da execução.
+
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = { now: () => new Date() };
+
+// Relógio parado num instante, para testes e demonstrações
+export const fixedClock = (instant: Date | string): Clock => ({ now: () => new Date(instant) });
+
+let clock: Clock = systemClock;
+
+export const setClock = (next: Clock) => {
+  clock = next;
+};
+
+export const getClock = () => clock;
+
+export interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+export type OffsetUnit = 'day' | 'week' | 'month' | 'year';
+
+// 'invalid' quando a pergunta cita uma data que não existe
+export type DateAnswerKind = 'today' | 'time' | 'weekday' | 'difference' | 'offset' | 'invalid';
+
+export interface DateAnswer {
+  kind: DateAnswerKind;
+  content: string;
+  // Data (ou datas) usada na resposta, em ISO (aaaa-mm-dd)
+  dates: string[];
+}
+
+export class DateParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DateParseError';
+  }
+}
+
+interface DateMention {
+  date: CalendarDate;
+  label: string;
+  // Sem ano explícito, o ano é escolhido conforme a pergunta
+  hasYear: boolean;
+  index: number;
+  length: number;
+}
+
+const MONTHS = [
+  'janeiro', 'fevereiro', 'março', 'abril', 'maio', 'junho',
+  'julho', 'agosto', 'setembro', 'outubro', 'novembro', 'dezembro'
+];
+const WEEKDAYS = ['domingo', 'segunda-feira', 'terça-feira', 'quarta-feira', 'quinta-feira', 'sexta-feira', 'sábado'];
+
+// Datas comemorativas de dia fixo
+const HOLIDAYS: Array<{ pattern: RegExp; name: string; month: number; day: number }> = [
+  { pattern: /\bnatal\b/, name: 'o Natal', month: 12, day: 25 },
+  { pattern: /\b(ano novo|reveillon)\b/, name: 'o Ano Novo', month: 1, day: 1 },
+  { pattern: /\btiradentes\b/, name: 'Tiradentes', month: 4, day: 21 },
+  { pattern: /\bdia do trabalho(ador)?\b/, name: 'o Dia do Trabalho', month: 5, day: 1 },
+  { pattern: /\b(dia da )?independencia\b/, name: 'a Independência', month: 9, day: 7 },
+  { pattern: /\bdia das criancas\b/, name: 'o Dia das Crianças', month: 10, day: 12 },
+  { pattern: /\bfinados\b/, name: 'Finados', month: 11, day: 2 },
+  { pattern: /\bproclamacao da republica\b/, name: 'a Proclamação da República', month: 11, day: 15 }
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  um: 1, uma: 1, dois: 2, duas: 2, tres: 3, quatro: 4, cinco: 5, seis: 6, sete: 7,
+  oito: 8, nove: 9, dez: 10, onze: 11, doze: 12, quinze: 15, vinte: 20, trinta: 30, cem: 100
+};
+
+const AMOUNT = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})`;
+const UNIT = '(dias?|semanas?|mes|meses|anos?)';
+const FUTURE_OFFSET = new RegExp(`\\b(?:daqui a|daqui|dentro de|em)\\s+${AMOUNT}\\s+${UNIT}\\b`);
+const PAST_OFFSET = [
+  new RegExp(`\\b(?:ha|faz)\\s+${AMOUNT}\\s+${UNIT}\\b`),
+  new RegExp(`\\b${AMOUNT}\\s+${UNIT}\\s+atras\\b`)
+];
+const RELATIVE_DAYS: Array<{ pattern: RegExp; days: number; label: string }> = [
+  { pattern: /\bdepois de amanha\b/, days: 2, label: 'Depois de amanhã' },
+  { pattern: /\banteontem\b/, days: -2, label: 'Anteontem' },
+  { pattern: /\bamanha\b/, days: 1, label: 'Amanhã' },
+  { pattern: /\bontem\b/, days: -1, label: 'Ontem' }
+];
+
+const ISO_DATE = /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g;
+// "7/9", "7/9/1822"; com ponto ou hífen só com o ano ("7.9.1822"), para não ler decimais como datas
+const NUMERIC_DATE = /\b(\d{1,2})\/(\d{1,2})(?:\/(\d{4}|\d{2}))?\b/g;
+const DOTTED_DATE = /\b(\d{1,2})([.-])(\d{1,2})\2(\d{4}|\d{2})\b/g;
+const TEXT_DATE = new RegExp(
+  `\\b(\\d{1,2})(?:º|o)?\\s+de\\s+(${MONTHS.map(month => normalizeText(month)).join('|')})(?:\\s+de\\s+(\\d{1,4}))?\\b`,
+  'g'
+);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toUtc = ({ year, month, day }: CalendarDate) => {
+  const date = new Date(Date.UTC(2000, month - 1, day));
+  // Date.UTC trata anos de 0 a 99 como 1900-1999
+  date.setUTCFullYear(year);
+  return date;
+};
+
+const fromUtc = (date: Date): CalendarDate => ({
+  year: date.getUTCFullYear(),
+  month: date.getUTCMonth() + 1,
+  day: date.getUTCDate()
+});
+
+export const isValidDate = (date: CalendarDate) => {
+  const check = fromUtc(toUtc(date));
+  return check.year === date.year && check.month === date.month && check.day === date.day;
+};
+
+export const daysBetween = (from: CalendarDate, to: CalendarDate) => {
+  return Math.round((toUtc(to).getTime() - toUtc(from).getTime()) / DAY_MS);
+};
+
+export const weekdayOf = (date: CalendarDate) => WEEKDAYS[toUtc(date).getUTCDay()];
+
+// Soma dias, semanas, meses ou anos; em meses e anos o dia é limitado ao fim do mês
+export const addToDate = (date: CalendarDate, amount: number, unit: OffsetUnit): CalendarDate => {
+  if (unit === 'day' || unit === 'week') {
+    const result = toUtc(date);
+    result.setUTCDate(result.getUTCDate() + amount * (unit === 'week' ? 7 : 1));
+    return fromUtc(result);
+  }
+
+  const months = date.year * 12 + (date.month - 1) + amount * (unit === 'year' ? 12 : 1);
+  const year = Math.floor(months / 12);
+  const month = months - year * 12 + 1;
+  const firstOfNext = toUtc(month === 12 ? { year: year + 1, month: 1, day: 1 } : { year, month: month + 1, day: 1 });
+  const lastDay = fromUtc(new Date(firstOfNext.getTime() - DAY_MS)).day;
+  return { year, month, day: Math.min(date.day, lastDay) };
+};
+
+export const toIsoDate = ({ year, month, day }: CalendarDate) => {
+  return `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+export const formatDate = ({ year, month, day }: CalendarDate) => {
+  return `${day === 1 ? '1º' : day} de ${MONTHS[month - 1]} de ${year}`;
+};
+
+const formatLongDate = (date: CalendarDate) => `${weekdayOf(date)}, ${formatDate(date)}`;
+
+// Data e hora atuais no fuso configurado
+export const zonedNow = (timeZone = config.datetime.timezone) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    hourCycle: 'h23'
+  }).formatToParts(clock.now());
+  const part = (type: string) => Number(parts.find(item => item.type === type)!.value);
+
+  return {
+    date: { year: part('year'), month: part('month'), day: part('day') } as CalendarDate,
+    hour: part('hour'),
+    minute: part('minute'),
+    timeZone
+  };
+};
+
+const toNumber = (text: string) => NUMBER_WORDS[text] ?? Number(text);
+
+const UNIT_NAMES: Record<OffsetUnit, [string, string]> = {
+  day: ['dia', 'dias'],
+  week: ['semana', 'semanas'],
+  month: ['mês', 'meses'],
+  year: ['ano', 'anos']
+};
+
+const toUnit = (text: string): OffsetUnit => {
+  if (text.startsWith('dia')) return 'day';
+  if (text.startsWith('semana')) return 'week';
+  if (text.startsWith('mes')) return 'month';
+  return 'year';
+};
+
+const expandYear = (text: string | undefined) => {
+  if (!text) return undefined;
+  return text.length === 2 ? 2000 + Number(text) : Number(text);
+};
+
+// Todas as datas citadas no texto (já normalizado), na ordem em que aparecem
+const findDates = (text: string, original: string): DateMention[] => {
+  const mentions: DateMention[] = [];
+  const push = (match: RegExpExecArray, day: number, month: number, year: number | undefined, label?: string) => {
+    const date = { year: year ?? 0, month, day };
+    const check = year === undefined ? { ...date, year: 2000 } : date;
+    if (!isValidDate(check)) {
+      throw new DateParseError(`A data ${original.slice(match.index, match.index + match[0].length)} não existe`);
+    }
+    mentions.push({ date, label: label || '', hasYear: year !== undefined, index: match.index, length: match[0].length });
+  };
+
+  for (const match of Array.from(text.matchAll(ISO_DATE))) {
+    push(match as RegExpExecArray, Number(match[3]), Number(match[2]), Number(match[1]));
+  }
+  for (const match of Array.from(text.matchAll(NUMERIC_DATE))) {
+    if (mentions.some(mention => match.index! >= mention.index && match.index! < mention.index + mention.length)) continue;
+    push(match as RegExpExecArray, Number(match[1]), Number(match[2]), expandYear(match[3]));
+  }
+  for (const match of Array.from(text.matchAll(DOTTED_DATE))) {
+    if (mentions.some(mention => match.index! >= mention.index && match.index! < mention.index + mention.length)) continue;
+    push(match as RegExpExecArray, Number(match[1]), Number(match[3]), expandYear(match[4]));
+  }
+  for (const match of Array.from(text.matchAll(TEXT_DATE))) {
+    const month = MONTHS.findIndex(name => normalizeText(name) === match[2]) + 1;
+    push(match as RegExpExecArray, Number(match[1]), month, match[3] ? Number(match[3]) : undefined);
+  }
+  for (const holiday of HOLIDAYS) {
+    const match = holiday.pattern.exec(text);
+    if (match) push(match, holiday.day, holiday.month, undefined, holiday.name);
+  }
+
+  return mentions.sort((a, b) => a.index - b.index);
+};
+
+// Escolhe o ano das datas sem ano: a próxima ocorrência, a última ou a do ano atual
+const resolveYear = (mention: DateMention, today: CalendarDate, direction: 'future' | 'past' | 'current'): CalendarDate => {
+  if (mention.hasYear) return mention.date;
+
+  const date = { ...mention.date, year: today.year };
+  if (direction === 'future' && daysBetween(today, date) < 0) date.year++;
+  if (direction === 'past' && daysBetween(today, date) > 0) date.year--;
+  // 29 de fevereiro só existe em anos bissextos
+  while (!isValidDate(date)) date.year += direction === 'past' ? -1 : 1;
+  return date;
+};
+
+const describe = (mention: DateMention, date: CalendarDate) => {
+  return mention.label ? `${mention.label} (${formatLongDate(date)})` : formatLongDate(date);
+};
+
+const plural = (count: number, singular: string, pluralForm: string) => `${count} ${count === 1 ? singular : pluralForm}`;
+
+const answerDifference = (text: string, getMentions: () => DateMention[], today: CalendarDate): DateAnswer | null => {
+  const between = /\bentre\b/.test(text);
+  const until = /\b(faltam?|falta quanto|quanto tempo falta|ate)\b/.test(text);
+  const since = /\b(desde|se passaram|passaram|faz quanto tempo|ha quanto tempo)\b/.test(text);
+  if (!between && !until && !since) return null;
+
+  const mentions = getMentions();
+  if (between && mentions.length >= 2) {
+    const from = resolveYear(mentions[0], today, 'current');
+    const to = resolveYear(mentions[1], today, 'current');
+    const days = Math.abs(daysBetween(from, to));
+    return {
+      kind: 'difference',
+      content: `Entre ${formatDate(from)} e ${formatDate(to)} há ${plural(days, 'dia', 'dias')}.`,
+      dates: [toIsoDate(from), toIsoDate(to)]
+    };
+  }
+  if (mentions.length === 0) return null;
+
+  if (until) {
+    const date = resolveYear(mentions[0], today, 'future');
+    const days = daysBetween(today, date);
+    const target = describe(mentions[0], date);
+    const content = days === 0
+      ? `É hoje: ${target}!`
+      : days > 0
+        ? `${days === 1 ? 'Falta' : 'Faltam'} ${plural(days, 'dia', 'dias')} para ${target}.`
+        : `${target} já passou, há ${plural(-days, 'dia', 'dias')}.`;
+    return { kind: 'difference', content, dates: [toIsoDate(date)] };
+  }
+
+  if (since) {
+    const date = resolveYear(mentions[0], today, 'past');
+    const days = daysBetween(date, today);
+    const target = describe(mentions[0], date);
+    const content = days >= 0
+      ? `Passaram-se ${plural(days, 'dia', 'dias')} desde ${target}.`
+      : `${target} ainda não chegou: faltam ${plural(-days, 'dia', 'dias')}.`;
+    return { kind: 'difference', content, dates: [toIsoDate(date)] };
+  }
+
+  return null;
+};
+
+const answerWeekday = (text: string, getMentions: () => DateMention[], today: CalendarDate): DateAnswer | null => {
+  if (!/\b(dia da semana|que dia cai|cai em que dia|cai num|cai em um)\b/.test(text)) return null;
+
+  const mentions = getMentions();
+  if (mentions.length === 0) return null;
+
+  const date = resolveYear(mentions[0], today, 'current');
+  const weekday = weekdayOf(date);
+  const offset = daysBetween(today, date);
+  const verb = offset < 0 ? 'foi' : offset === 0 ? 'é' : 'será';
+  const article = weekday.endsWith('feira') ? 'uma' : 'um';
+  const subject = mentions[0].label ? `${mentions[0].label} (${formatDate(date)})` : formatDate(date);
+  return {
+    kind: 'weekday',
+    content: `${subject.charAt(0).toUpperCase()}${subject.slice(1)} ${verb} ${article} ${weekday}.`,
+    dates: [toIsoDate(date)]
+  };
+};
+
+const answerOffset = (text: string, today: CalendarDate): DateAnswer | null => {
+  if (!/\b(que dia|que data|qual (e )?a data|qual dia|quando)\b/.test(text)) return null;
+
+  let date: CalendarDate | null = null;
+  let label = '';
+  const future = text.match(FUTURE_OFFSET);
+  const past = PAST_OFFSET.map(pattern => text.match(pattern)).find(Boolean);
+  const relative = RELATIVE_DAYS.find(item => item.pattern.test(text));
+
+  if (future) {
+    const amount = toNumber(future[1]);
+    date = addToDate(today, amount, toUnit(future[2]));
+    label = `Daqui a ${plural(amount, ...UNIT_NAMES[toUnit(future[2])])}`;
+  } else if (past) {
+    const amount = toNumber(past[1]);
+    date = addToDate(today, -amount, toUnit(past[2]));
+    label = `Há ${plural(amount, ...UNIT_NAMES[toUnit(past[2])])}`;
+  } else if (relative) {
+    date = addToDate(today, relative.days, 'day');
+    label = relative.label;
+  }
+  if (!date) return null;
+
+  const verb = daysBetween(today, date) < 0 ? 'foi' : 'será';
+  return { kind: 'offset', content: `${label} ${verb} ${formatLongDate(date)}.`, dates: [toIsoDate(date)] };
+};
+
+// Responde perguntas de data e hora; null quando a mensagem não é uma delas
+export const answerDateQuestion = (message: string): DateAnswer | null => {
+  const text = normalizeText(message).replace(/\s+/g, ' ');
+  const now = zonedNow();
+  const today = now.date;
+
+  if (/\b(que horas sao|que hora e|qual (e )?a hora|horas sao agora)\b/.test(text)) {
+    const time = `${String(now.hour).padStart(2, '0')}:${String(now.minute).padStart(2, '0')}`;
+    return {
+      kind: 'time',
+      content: `Agora são ${time} de ${formatLongDate(today)} (${now.timeZone}).`,
+      dates: [toIsoDate(today)]
+    };
+  }
+
+  // As datas só são lidas quando a pergunta é de fato sobre datas
+  let mentions: DateMention[] | null = null;
+  const getMentions = () => (mentions = mentions || findDates(text, message.replace(/\s+/g, ' ')));
+
+  try {
+    const answer = answerWeekday(text, getMentions, today)
+      || answerDifference(text, getMentions, today)
+      || answerOffset(text, today);
+    if (answer) return answer;
+  } catch (error) {
+    if (error instanceof DateParseError) {
+      return { kind: 'invalid', content: `${error.message}.`, dates: [] };
+    }
+    throw error;
+  }
+
+  if (/\b(que dia e hoje|hoje e que dia|que dia e hj|qual (e )?a data de hoje|data de hoje|em que dia estamos)\b/.test(text)) {
+    return { kind: 'today', content: `Hoje é ${formatLongDate(today)}.`, dates: [toIsoDate(today)] };
+  }
+
+  return null;
+};
@@ -0,0 +1,291 @@
+import { FilterQuery } from 'mongoose';
+import { Knowledge } from '../models/Knowledge.model';
+import { SourceDocument } from '../models/SourceDocument.model';
+import { Feedback } from '../models/Feedback.model';
+import { config } from '../config/config';
+import { getConfidence } from './feedback.service';
+import { fingerprint, similarity } from './fingerprint.service';
+import { newBatchId, recordDeleted, recordUpdated, RevisionContext, toSnapshot } from './revision.service';
+
+// Camada de deduplicação compartilhada por todos os caminhos que gravam
+// conhecimento: cópias exatas pelo hash do conteúdo normalizado e
+// quase-duplicatas pela assinatura minhash. Também gera o relatório de grupos de
+// duplicatas e funde entradas mantendo a de melhor origem.
+
+export type DuplicateType = 'exact' | 'near';
+
+export interface DuplicateMatch {
+  type: DuplicateType;
+  id: string;
+  source: string;
+  similarity: number;
+}
+
+export interface DuplicateCluster {
+  type: DuplicateType;
+  // Entrada sugerida para ser mantida numa fusão
+  keep: string;
+  entries: Array<{
+    id: string;
+    content: string;
+    source: string;
+    type?: string;
+    confidence: number;
+    timestamp: Date;
+    url?: string;
+  }>;
+}
+
+export class DuplicateMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DuplicateMergeError';
+  }
+}
+
+// Padrões de classificação guardam expressões regulares, não conhecimento
+const CONTENT_FILTER = { type: { $ne: 'pattern' } };
+
+// Maior bloco de candidatos comparados dois a dois no relatório
+const MAX_BAND_GROUP = 200;
+
+// Origens mais confiáveis primeiro: o que o usuário ensinou ou corrigiu vale
+// mais que documentos, que valem mais que trechos de buscas na web
+const SOURCE_PRIORITY: Array<[RegExp, number]> = [
+  [/^user_correction$/, 5],
+  [/^user_teaching$/, 4],
+  [/^(upload:|https?:)/, 3],
+  [/^(basic_math|calculated)$/, 2],
+  [/^search:/, 1]
+];
+
+const sourcePriority = (source: string) => {
+  const match = SOURCE_PRIORITY.find(([pattern]) => pattern.test(source || ''));
+  return match ? match[1] : 0;
+};
+
+// Ordena da melhor para a pior entrada: origem, confiança, saldo de avaliações e antiguidade
+const compareEntries = (a: any, b: any) => {
+  return sourcePriority(b.source) - sourcePriority(a.source)
+    || getConfidence(b) - getConfidence(a)
+    || ((b.positiveFeedback || 0) - (b.negativeFeedback || 0)) - ((a.positiveFeedback || 0) - (a.negativeFeedback || 0))
+    || new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime();
+};
+
+const isNear = (a?: number[], b?: number[]) => Boolean(a && b) && similarity(a, b) >= config.dedup.nearThreshold;
+
+const toMatch = (entry: any, hash: string, signature?: number[]): DuplicateMatch => {
+  const type: DuplicateType = entry.contentHash === hash ? 'exact' : 'near';
+  return {
+    type,
+    id: String(entry._id),
+    source: entry.source,
+    similarity: type === 'exact' ? 1 : similarity(signature!, entry.minhash)
+  };
+};
+
+const candidateFilter = (tenant: string, hashes: string[], bands: string[]): FilterQuery<any> => ({
+  tenant,
+  ...CONTENT_FILTER,
+  $or: [
+    { contentHash: { $in: hashes } },
+    ...(bands.length > 0 ? [{ minhashBands: { $in: bands } }] : [])
+  ]
+});
+
+// Procura no tenant uma entrada igual ou quase igual ao conteúdo; null quando é inédito
+export const findDuplicate = async (tenant: string, content: string): Promise<DuplicateMatch | null> => {
+  const { contentHash, minhash, minhashBands } = fingerprint(content);
+  const candidates = await Knowledge.find(candidateFilter(tenant, [contentHash], minhashBands || []))
+    .select('contentHash minhash source')
+    .lean();
+
+  const matches = candidates
+    .filter(entry => entry.contentHash === contentHash || isNear(minhash, entry.minhash))
+    .map(entry => toMatch(entry, contentHash, minhash));
+
+  return matches.sort((a, b) => b.similarity - a.similarity)[0] || null;
+};
+
+// Separa um lote em itens inéditos e duplicatas, inclusive de itens do próprio lote
+export const partitionDuplicates = async <T extends { content: string }>(tenant: string, items: T[]) => {
+  const fingerprints = items.map(item => fingerprint(item.content));
+  const candidates = items.length === 0 ? [] : await Knowledge.find(candidateFilter(
+    tenant,
+    fingerprints.map(print => print.contentHash),
+    fingerprints.flatMap(print => print.minhashBands || [])
+  )).select('contentHash minhash').lean();
+
+  const knownHashes = new Set(candidates.map(entry => entry.contentHash));
+  const knownSignatures = candidates.filter(entry => entry.minhash).map(entry => entry.minhash!);
+
+  const unique: T[] = [];
+  const duplicates: Array<{ item: T; type: DuplicateType }> = [];
+
+  items.forEach((item, index) => {
+    const { contentHash, minhash } = fingerprints[index];
+    if (knownHashes.has(contentHash)) {
+      duplicates.push({ item, type: 'exact' });
+      return;
+    }
+    if (minhash && knownSignatures.some(known => isNear(minhash, known))) {
+      duplicates.push({ item, type: 'near' });
+      return;
+    }
+
+    unique.push(item);
+    knownHashes.add(contentHash);
+    if (minhash) knownSignatures.push(minhash);
+  });
+
+  return { unique, duplicates };
+};
+
+// Grupos de entradas duplicadas do tenant, com a entrada sugerida para ser mantida
+export const findDuplicateClusters = async (tenant: string, limit = config.dedup.reportLimit) => {
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const root = parent.get(id) ?? id;
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+  const union = (a: string, b: string) => {
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA !== rootB) parent.set(rootB, rootA);
+  };
+
+  const exactGroups = await Knowledge.aggregate([
+    { $match: { tenant, ...CONTENT_FILTER, contentHash: { $exists: true } } },
+    { $group: { _id: '$contentHash', ids: { $push: '$_id' }, count: { $sum: 1 } } },
+    { $match: { count: { $gt: 1 } } }
+  ]);
+  for (const group of exactGroups) {
+    const [first, ...others] = group.ids.map(String);
+    others.forEach((id: string) => union(first, id));
+  }
+
+  const bandGroups = await Knowledge.aggregate([
+    { $match: { tenant, ...CONTENT_FILTER, minhashBands: { $exists: true } } },
+    { $unwind: '$minhashBands' },
+    { $group: { _id: '$minhashBands', entries: { $push: { id: '$_id', minhash: '$minhash' } }, count: { $sum: 1 } } },
+    { $match: { count: { $gt: 1 } } }
+  ]);
+  for (const group of bandGroups) {
+    const entries = group.entries.slice(0, MAX_BAND_GROUP);
+    for (let i = 0; i < entries.length; i++) {
+      for (let j = i + 1; j < entries.length; j++) {
+        if (isNear(entries[i].minhash, entries[j].minhash)) {
+          union(String(entries[i].id), String(entries[j].id));
+        }
+      }
+    }
+  }
+
+  const members = new Map<string, Set<string>>();
+  for (const [id, linked] of Array.from(parent.entries())) {
+    const root = find(id);
+    if (!members.has(root)) members.set(root, new Set());
+    members.get(root)!.add(id).add(linked);
+  }
+
+  const groups = Array.from(members.values(), group => Array.from(group)).slice(0, limit);
+  const entries = await Knowledge.find({ tenant, _id: { $in: groups.flat() } })
+    .select('content source type confidence timestamp url contentHash positiveFeedback negativeFeedback')
+    .lean();
+  const byId = new Map(entries.map(entry => [String(entry._id), entry]));
+
+  return groups
+    .map(ids => ids.map(id => byId.get(id)).filter(Boolean).sort(compareEntries))
+    .filter(cluster => cluster.length > 1)
+    .map((cluster): DuplicateCluster => ({
+      type: cluster.every(entry => entry.contentHash === cluster[0].contentHash) ? 'exact' : 'near',
+      keep: String(cluster[0]._id),
+      entries: cluster.map(entry => ({
+        id: String(entry._id),
+        content: entry.content,
+        source: entry.source,
+        type: entry.type,
+        confidence: getConfidence(entry),
+        timestamp: entry.timestamp,
+        url: entry.url
+      }))
+    }));
+};
+
+// Funde as entradas numa só: mantém `keepId` (ou a de melhor origem), soma as
+// avaliações, fica com a maior confiança e remove as demais
+export const mergeDuplicates = async (
+  tenant: string,
+  ids: string[],
+  keepId: string | undefined,
+  context: Pick<RevisionContext, 'actor' | 'reason'>
+) => {
+  const uniqueIds = Array.from(new Set(ids.map(String)));
+  const entries = await Knowledge.find({ tenant, _id: { $in: uniqueIds } });
+  if (entries.length !== uniqueIds.length) {
+    throw new DuplicateMergeError('Conhecimento não encontrado');
+  }
+  if (entries.length < 2) {
+    throw new DuplicateMergeError('Informe ao menos duas entradas para fundir');
+  }
+
+  const sorted = [...entries].sort(compareEntries);
+  const keep = keepId ? sorted.find(entry => entry.id === String(keepId)) : sorted[0];
+  if (!keep) {
+    throw new DuplicateMergeError('A entrada a manter deve estar entre as informadas');
+  }
+  const removed = sorted.filter(entry => entry !== keep);
+  const revision: RevisionContext = { ...context, origin: 'merge', batchId: newBatchId() };
+  const before = toSnapshot(keep);
+
+  keep.confidence = Math.max(...entries.map(getConfidence));
+  keep.positiveFeedback = entries.reduce((sum, entry) => sum + (entry.positiveFeedback || 0), 0);
+  keep.negativeFeedback = entries.reduce((sum, entry) => sum + (entry.negativeFeedback || 0), 0);
+  keep.url = keep.url || removed.find(entry => entry.url)?.url;
+  await keep.save();
+  await recordUpdated(tenant, before, keep, revision);
+
+  // As avaliações das entradas removidas passam a apontar para a mantida
+  await Feedback.updateMany(
+    { tenant, knowledgeId: { $in: removed.map(entry => entry._id) } },
+    { $set: { knowledgeId: keep._id } }
+  );
+
+  for (const entry of removed) {
+    await Knowledge.findOneAndDelete({ _id: entry._id, tenant });
+    if (entry.documentId) {
+      await SourceDocument.updateOne({ _id: entry.documentId, tenant }, { $inc: { passageCount: -1 } });
+    }
+  }
+  await recordDeleted(tenant, removed, revision);
+
+  console.log(`🔗 ${removed.length} duplicatas fundidas em ${keep.id}`);
+  return { kept: keep, removed: removed.map(entry => entry.id), batchId: revision.batchId };
+};
+
+// Calcula as impressões digitais de entradas gravadas antes da deduplicação
+export const backfillFingerprints = async () => {
+  const cursor = Knowledge.find({ contentHash: { $exists: false } }).select('content').lean().cursor();
+  let operations = [];
+  let count = 0;
+
+  for await (const entry of cursor) {
+    operations.push({ updateOne: { filter: { _id: entry._id }, update: { $set: fingerprint(entry.content) } } });
+    if (operations.length === 500) {
+      count += operations.length;
+      await Knowledge.bulkWrite(operations);
+      operations = [];
+    }
+  }
+  if (operations.length > 0) {
+    count += operations.length;
+    await Knowledge.bulkWrite(operations);
+  }
+
+  if (count > 0) {
+    console.log(`🧬 Impressões digitais calculadas para ${count} conhecimentos`);
+  }
+};
@@ -0,0 +1,282 @@
+import { ExpressionError, formatResult, parseNumber } from './expression.service';
+
+// Resolução de equações de uma variável de 1º e 2º grau ("2x + 3 = 7",
+// "x² - 5x + 6 = 0"), com os passos da solução. Cada lado é lido como um
+// polinômio: coeficientes indexados pelo grau ([c, b, a] = ax² + bx + c).
+
+type Polynomial = number[];
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'variable' }
+  | { type: 'operator'; value: string }
+  | { type: 'paren'; value: '(' | ')' };
+
+export interface EquationSolution {
+  variable: string;
+  equation: string;
+  // Forma padrão, com todos os termos à esquerda
+  standardForm: string;
+  degree: number;
+  // Vazio quando não há solução real; null quando qualquer valor é solução
+  solutions: number[] | null;
+  steps: string[];
+}
+
+// Letras aceitas como incógnita; outras letras isoladas costumam ser palavras ("a", "e")
+const VARIABLES = 'xyzn';
+const MAX_DEGREE = 2;
+const SUPERSCRIPTS: Record<string, number> = { '²': 2, '³': 3 };
+const EQUATION_CHARS = `(?:\\d+(?:[.,]\\d+)?|(?<![a-zà-ú])[${VARIABLES}](?![a-zà-ú])|[()+\\-*/^×÷·²³\\s])+`;
+
+const trim = (poly: Polynomial): Polynomial => {
+  const result = poly.map(coefficient => (Math.abs(coefficient) < 1e-12 ? 0 : coefficient));
+  while (result.length > 1 && result[result.length - 1] === 0) result.pop();
+  return result;
+};
+
+const add = (a: Polynomial, b: Polynomial, sign = 1): Polynomial => {
+  const result = new Array(Math.max(a.length, b.length)).fill(0);
+  a.forEach((coefficient, degree) => { result[degree] += coefficient; });
+  b.forEach((coefficient, degree) => { result[degree] += sign * coefficient; });
+  return trim(result);
+};
+
+const multiply = (a: Polynomial, b: Polynomial): Polynomial => {
+  const result = new Array(a.length + b.length - 1).fill(0);
+  a.forEach((x, i) => b.forEach((y, j) => { result[i + j] += x * y; }));
+  return trim(result);
+};
+
+const degreeOf = (poly: Polynomial) => trim(poly).length - 1;
+
+const tokenize = (text: string, variable: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const numberMatch = text.slice(i).match(/^(\d+([.,]\d+)?|[.,]\d+)/);
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: parseNumber(numberMatch[0]) });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    if (char.toLowerCase() === variable) {
+      tokens.push({ type: 'variable' });
+    } else if (SUPERSCRIPTS[char]) {
+      tokens.push({ type: 'operator', value: '^' }, { type: 'number', value: SUPERSCRIPTS[char] });
+    } else if ('+-*/^'.includes(char)) {
+      tokens.push({ type: 'operator', value: char });
+    } else if ('×·'.includes(char)) {
+      tokens.push({ type: 'operator', value: '*' });
+    } else if (char === '÷') {
+      tokens.push({ type: 'operator', value: '/' });
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', value: char });
+    } else {
+      throw new ExpressionError(`Caractere inválido na equação: "${char}"`);
+    }
+    i++;
+  }
+
+  return tokens;
+};
+
+// Mesmo parser descendente do avaliador de expressões, sobre polinômios e
+// com multiplicação implícita ("2x", "3(x + 1)", "x(x - 2)")
+const parsePolynomial = (text: string, variable: string): Polynomial => {
+  const tokens = tokenize(text, variable);
+  if (tokens.length === 0) {
+    throw new ExpressionError('Lado da equação vazio');
+  }
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOperator = (value: string) => {
+    const token = peek();
+    return token !== undefined && token.type === 'operator' && token.value === value;
+  };
+  const startsFactor = () => {
+    const token = peek();
+    return token !== undefined && (token.type === 'variable' || (token.type === 'paren' && token.value === '('));
+  };
+
+  const parseExpr = (): Polynomial => {
+    let left = parseTerm();
+    while (isOperator('+') || isOperator('-')) {
+      const operator = (tokens[position++] as { value: string }).value;
+      left = add(left, parseTerm(), operator === '+' ? 1 : -1);
+    }
+    return left;
+  };
+
+  const parseTerm = (): Polynomial => {
+    let left = parseUnary();
+    while (isOperator('*') || isOperator('/') || startsFactor()) {
+      const operator = startsFactor() ? '*' : (tokens[position++] as { value: string }).value;
+      const right = parseUnary();
+      if (operator === '/') {
+        if (degreeOf(right) > 0) {
+          throw new ExpressionError('Divisão pela incógnita não suportada');
+        }
+        if (right[0] === 0) {
+          throw new ExpressionError('Divisão por zero');
+        }
+        left = left.map(coefficient => coefficient / right[0]);
+      } else {
+        left = multiply(left, right);
+      }
+    }
+    return left;
+  };
+
+  const parseUnary = (): Polynomial => {
+    if (isOperator('-')) {
+      position++;
+      return parseUnary().map(coefficient => -coefficient);
+    }
+    if (isOperator('+')) {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): Polynomial => {
+    const base = parsePrimary();
+    if (!isOperator('^')) return base;
+
+    position++;
+    const exponent = parseUnary();
+    if (degreeOf(exponent) > 0 || !Number.isInteger(exponent[0]) || exponent[0] < 0) {
+      throw new ExpressionError('Expoente deve ser um inteiro não negativo');
+    }
+    let result: Polynomial = [1];
+    for (let i = 0; i < exponent[0]; i++) {
+      result = multiply(result, base);
+      if (degreeOf(result) > 2 * MAX_DEGREE) {
+        throw new ExpressionError(`Só resolvo equações de até ${MAX_DEGREE}º grau`);
+      }
+    }
+    return result;
+  };
+
+  const parsePrimary = (): Polynomial => {
+    const token = peek();
+    if (!token) {
+      throw new ExpressionError('Equação incompleta');
+    }
+    position++;
+
+    if (token.type === 'number') return [token.value];
+    if (token.type === 'variable') return [0, 1];
+    if (token.type === 'paren' && token.value === '(') {
+      const inner = parseExpr();
+      const closing = peek();
+      if (!closing || closing.type !== 'paren' || closing.value !== ')') {
+        throw new ExpressionError('Parêntese não fechado');
+      }
+      position++;
+      return inner;
+    }
+
+    throw new ExpressionError(`Símbolo inesperado: "${'value' in token ? token.value : variable}"`);
+  };
+
+  const result = parseExpr();
+  if (position < tokens.length) {
+    const token = tokens[position];
+    throw new ExpressionError(`Símbolo inesperado: "${'value' in token ? token.value : variable}"`);
+  }
+  return result;
+};
+
+export const formatPolynomial = (poly: Polynomial, variable: string): string => {
+  const terms: string[] = [];
+  for (let degree = poly.length - 1; degree >= 0; degree--) {
+    const coefficient = poly[degree];
+    if (coefficient === 0) continue;
+
+    const magnitude = Math.abs(coefficient);
+    const body = degree === 0
+      ? formatResult(magnitude)
+      : `${magnitude === 1 ? '' : formatResult(magnitude)}${variable}${degree === 1 ? '' : degree === 2 ? '²' : `^${degree}`}`;
+    const sign = coefficient < 0 ? '-' : '+';
+    terms.push(terms.length === 0 ? (sign === '-' ? `-${body}` : body) : `${sign} ${body}`);
+  }
+  return terms.length > 0 ? terms.join(' ') : '0';
+};
+
+// Número entre parênteses quando negativo, para as contas dos passos
+const operand = (value: number) => (value < 0 ? `(${formatResult(value)})` : formatResult(value));
+
+// Localiza "<expressão> = <expressão>" com uma única incógnita dentro de uma frase,
+// ex.: "resolva 2x + 3 = 7" -> { equation: "2x + 3 = 7", variable: "x" }
+export const extractEquation = (text: string): { equation: string; left: string; right: string; variable: string } | null => {
+  const parts = text.split('=');
+  if (parts.length !== 2) return null;
+
+  const left = parts[0].match(new RegExp(`${EQUATION_CHARS}$`, 'i'))?.[0].trim();
+  const right = parts[1].match(new RegExp(`^${EQUATION_CHARS}`, 'i'))?.[0].trim();
+  if (!left || !right) return null;
+
+  const equation = `${left} = ${right}`;
+  const variables = new Set((equation.toLowerCase().match(new RegExp(`[${VARIABLES}]`, 'g')) || []));
+  if (variables.size !== 1) return null;
+
+  return { equation, left, right, variable: Array.from(variables)[0] };
+};
+
+export const solveEquation = (left: string, right: string, variable: string): EquationSolution => {
+  const equation = `${left} = ${right}`;
+  const poly = add(parsePolynomial(left, variable), parsePolynomial(right, variable), -1);
+  const degree = degreeOf(poly);
+  if (degree > MAX_DEGREE) {
+    throw new ExpressionError(`Só resolvo equações de até ${MAX_DEGREE}º grau`);
+  }
+
+  const standardForm = `${formatPolynomial(poly, variable)} = 0`;
+  const steps = [`Equação: ${equation}`, `Passando todos os termos para a esquerda: ${standardForm}`];
+  const solution = (solutions: number[] | null): EquationSolution => ({ variable, equation, standardForm, degree, solutions, steps });
+  const [c, b = 0, a = 0] = poly;
+
+  if (degree <= 0) {
+    steps.push(c === 0 ? 'A igualdade vale para qualquer valor' : `${formatResult(c)} = 0 é falso: não há solução`);
+    return solution(c === 0 ? null : []);
+  }
+
+  if (degree === 1) {
+    const x = -c / b;
+    if (c !== 0) steps.push(`Isolando ${variable}: ${formatPolynomial([0, b], variable)} = ${formatResult(-c)}`);
+    if (b !== 1) steps.push(`Dividindo por ${formatResult(b)}: ${variable} = ${formatResult(-c)} / ${operand(b)} = ${formatResult(x)}`);
+    return solution([x]);
+  }
+
+  const delta = b * b - 4 * a * c;
+  steps.push(`Coeficientes: a = ${formatResult(a)}, b = ${formatResult(b)}, c = ${formatResult(c)}`);
+  steps.push(`Δ = b² - 4ac = ${operand(b)}² - 4 × ${operand(a)} × ${operand(c)} = ${formatResult(delta)}`);
+
+  if (delta < 0) {
+    steps.push('Δ < 0: a equação não tem raízes reais');
+    return solution([]);
+  }
+  if (delta === 0) {
+    const x = -b / (2 * a);
+    steps.push(`Δ = 0: raiz dupla ${variable} = -b / 2a = ${formatResult(-b)} / ${operand(2 * a)} = ${formatResult(x)}`);
+    return solution([x]);
+  }
+
+  const root = Math.sqrt(delta);
+  const x1 = (-b + root) / (2 * a);
+  const x2 = (-b - root) / (2 * a);
+  steps.push(`${variable} = (-b ± √Δ) / 2a = (${formatResult(-b)} ± ${formatResult(root)}) / ${operand(2 * a)}`);
+  steps.push(`${variable}₁ = ${formatResult(x1)}, ${variable}₂ = ${formatResult(x2)}`);
+  return solution([x1, x2]);
+};
@@ -0,0 +1,242 @@
+// Avaliador de expressões aritméticas sem uso de eval.
+// Suporta precedência, parênteses, decimais com '.' ou ',', menos unário,
+// potências (^ ou **) e porcentagens (50% = 0.5; 200 + 10% = 220).
+
+export class ExpressionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExpressionError';
+  }
+}
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'operator'; value: string }
+  | { type: 'paren'; value: '(' | ')' };
+
+interface Operand {
+  value: number;
+  percent: boolean;
+}
+
+// Converte um número textual aceitando vírgula ou ponto como separador decimal
+export const parseNumber = (text: string): number => {
+  const normalized = text.trim().replace(',', '.');
+  if (!/^-?\d+(\.\d+)?$/.test(normalized) && !/^-?\.\d+$/.test(normalized)) {
+    return NaN;
+  }
+  return Number(normalized);
+};
+
+const tokenize = (expression: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const numberMatch = expression.slice(i).match(/^(\d+([.,]\d+)?|[.,]\d+)/);
+    if (numberMatch) {
+      tokens.push({ type: 'number', value: parseNumber(numberMatch[0]) });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    if (expression.startsWith('**', i)) {
+      tokens.push({ type: 'operator', value: '^' });
+      i += 2;
+      continue;
+    }
+
+    if ('+-*/^%'.includes(char)) {
+      tokens.push({ type: 'operator', value: char });
+      i++;
+      continue;
+    }
+
+    // Variações comuns de multiplicação e divisão
+    if (char === 'x' || char === 'X' || char === '×') {
+      tokens.push({ type: 'operator', value: '*' });
+      i++;
+      continue;
+    }
+    if (char === '÷' || char === ':') {
+      tokens.push({ type: 'operator', value: '/' });
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', value: char });
+      i++;
+      continue;
+    }
+
+    throw new ExpressionError(`Caractere inválido na expressão: "${char}"`);
+  }
+
+  return tokens;
+};
+
+// Parser descendente recursivo:
+//   expr    := term (('+' | '-') term)*
+//   term    := unary (('*' | '/') unary)*
+//   unary   := ('+' | '-') unary | power
+//   power   := postfix ('^' unary)?
+//   postfix := primary '%'*
+//   primary := number | '(' expr ')'
+const parse = (tokens: Token[]): number => {
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOperator = (value: string) => {
+    const token = peek();
+    return token !== undefined && token.type === 'operator' && token.value === value;
+  };
+
+  const parseExpr = (): Operand => {
+    let left = parseTerm();
+    while (isOperator('+') || isOperator('-')) {
+      const operator = tokens[position++].value;
+      const right = parseTerm();
+      // "200 + 10%" soma 10% de 200, como nas calculadoras
+      const amount = right.percent ? left.value * right.value : right.value;
+      left = {
+        value: operator === '+' ? left.value + amount : left.value - amount,
+        percent: false
+      };
+    }
+    return left;
+  };
+
+  const parseTerm = (): Operand => {
+    let left = parseUnary();
+    while (isOperator('*') || isOperator('/')) {
+      const operator = tokens[position++].value;
+      const right = parseUnary();
+      if (operator === '/') {
+        if (right.value === 0) {
+          throw new ExpressionError('Divisão por zero');
+        }
+        left = { value: left.value / right.value, percent: false };
+      } else {
+        left = { value: left.value * right.value, percent: false };
+      }
+    }
+    return left;
+  };
+
+  const parseUnary = (): Operand => {
+    if (isOperator('-')) {
+      position++;
+      const operand = parseUnary();
+      return { value: -operand.value, percent: operand.percent };
+    }
+    if (isOperator('+')) {
+      position++;
+      return parseUnary();
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): Operand => {
+    const base = parsePostfix();
+    if (isOperator('^')) {
+      position++;
+      const exponent = parseUnary();
+      const value = Math.pow(base.value, exponent.value);
+      if (Number.isNaN(value)) {
+        throw new ExpressionError('Potência sem resultado real');
+      }
+      return { value, percent: false };
+    }
+    return base;
+  };
+
+  const parsePostfix = (): Operand => {
+    let operand = parsePrimary();
+    while (isOperator('%')) {
+      position++;
+      operand = { value: operand.value / 100, percent: true };
+    }
+    return operand;
+  };
+
+  const parsePrimary = (): Operand => {
+    const token = peek();
+    if (!token) {
+      throw new ExpressionError('Expressão incompleta');
+    }
+
+    if (token.type === 'number') {
+      position++;
+      return { value: token.value, percent: false };
+    }
+
+    if (token.type === 'paren' && token.value === '(') {
+      position++;
+      const inner = parseExpr();
+      const closing = peek();
+      if (!closing || closing.type !== 'paren' || closing.value !== ')') {
+        throw new ExpressionError('Parêntese não fechado');
+      }
+      position++;
+      return { value: inner.value, percent: false };
+    }
+
+    throw new ExpressionError(`Símbolo inesperado: "${token.value}"`);
+  };
+
+  const result = parseExpr();
+  if (position < tokens.length) {
+    throw new ExpressionError(`Símbolo inesperado: "${tokens[position].value}"`);
+  }
+  return result.value;
+};
+
+export const evaluateExpression = (expression: string): number => {
+  const tokens = tokenize(expression);
+  if (tokens.length === 0) {
+    throw new ExpressionError('Expressão vazia');
+  }
+
+  const result = parse(tokens);
+  if (!Number.isFinite(result)) {
+    throw new ExpressionError('Resultado fora do intervalo numérico');
+  }
+  return result;
+};
+
+// Remove ruído de ponto flutuante (0.1 + 0.2 = 0.3)
+export const formatResult = (value: number): string => {
+  return String(Number(value.toPrecision(12)));
+};
+
+// Compara resultados tolerando a imprecisão de ponto flutuante
+export const resultsMatch = (a: number, b: number): boolean => {
+  return Math.abs(a - b) <= 1e-9 * Math.max(1, Math.abs(a), Math.abs(b));
+};
+
+// Localiza a primeira expressão aritmética dentro de um texto livre,
+// ex.: "quanto é 2 + 3 * 4?" -> "2 + 3 * 4"
+export const extractExpression = (text: string): string | null => {
+  const candidates = text.match(/[-+(]*\s*[\d.,][\d\s.,()+\-*/^%x×÷]*/g) || [];
+
+  for (const candidate of candidates) {
+    const expression = candidate
+      .trim()
+      .replace(/[.,\s]+$/, '');
+
+    // Exige ao menos um operador entre dois operandos
+    if (/[\d)%]\s*([+\-*/^x×÷]|\*\*)\s*[-+(]*\s*[\d(.,]/.test(expression)) {
+      return expression;
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,260 @@
+import pdf from 'pdf-parse';
+import * as cheerio from 'cheerio';
+
+// Detecção de formato pelo conteúdo (e não pela extensão) e extração de texto
+// específica para cada formato suportado.
+
+export type DocumentFormat = 'pdf' | 'html' | 'json' | 'csv' | 'markdown' | 'text';
+
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  mimeType: string;
+  title?: string;
+  text?: string;
+  pages?: string[];
+}
+
+export class UnsupportedFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedFormatError';
+  }
+}
+
+const MIME_TYPES: Record<DocumentFormat, string> = {
+  pdf: 'application/pdf',
+  html: 'text/html',
+  json: 'application/json',
+  csv: 'text/csv',
+  markdown: 'text/markdown',
+  text: 'text/plain'
+};
+
+const SNIFF_LENGTH = 8192;
+
+// Mesmo algoritmo do render padrão do pdf-parse, mas guardando o texto de cada página
+export const extractPdfPages = async (buffer: Buffer): Promise<string[]> => {
+  const pages: string[] = [];
+
+  const renderPage = async (pageData: any) => {
+    const textContent = await pageData.getTextContent({
+      normalizeWhitespace: false,
+      disableCombineTextItems: false
+    });
+
+    let lastY: number | undefined;
+    let text = '';
+    for (const item of textContent.items) {
+      text += lastY === item.transform[5] || !lastY ? item.str : '\n' + item.str;
+      lastY = item.transform[5];
+    }
+
+    pages.push(text);
+    return text;
+  };
+
+  await pdf(buffer, { pagerender: renderPage as unknown as (pageData: any) => string });
+  return pages;
+};
+
+// Extrai o texto visível de uma página HTML preservando a quebra entre blocos,
+// para que a divisão em passagens encontre os parágrafos
+export const extractHtmlText = (html: string): { title: string; text: string } => {
+  const $ = cheerio.load(html);
+  $('script, style, noscript').remove();
+  $('br').replaceWith('\n');
+  $('p, div, section, article, li, tr, h1, h2, h3, h4, h5, h6, blockquote, pre').after('\n\n');
+
+  const text = $('body').text()
+    .replace(/[ \t\r\f\v]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { title: $('title').text().trim(), text };
+};
+
+const decodeUtf8 = (buffer: Buffer): string | null => {
+  if (buffer.subarray(0, SNIFF_LENGTH).includes(0)) {
+    return null;
+  }
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(buffer).replace(/^\uFEFF/, '');
+  } catch {
+    return null;
+  }
+};
+
+// Divide uma linha CSV respeitando campos entre aspas
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+};
+
+const detectCsvDelimiter = (text: string): string | null => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 20);
+  if (lines.length < 2) return null;
+
+  for (const delimiter of [',', ';', '\t']) {
+    const counts = lines.map(line => splitCsvLine(line, delimiter).length);
+    if (counts[0] > 1 && counts.every(count => count === counts[0])) {
+      return delimiter;
+    }
+  }
+  return null;
+};
+
+const looksLikeHtml = (text: string): boolean => {
+  const head = text.slice(0, SNIFF_LENGTH).trimStart();
+  if (/^<!doctype\s+html/i.test(head) || /^<html[\s>]/i.test(head)) return true;
+  if (!head.startsWith('<')) return false;
+  const tags = head.match(/<\/?(html|head|body|p|div|span|a|h[1-6]|table|ul|ol|li|br|section|article)\b[^>]*>/gi);
+  return (tags || []).length >= 2;
+};
+
+const looksLikeJson = (text: string): boolean => {
+  const trimmed = text.trim();
+  if (!/^[\[{]/.test(trimmed)) return false;
+  try {
+    JSON.parse(trimmed);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const looksLikeMarkdown = (text: string): boolean => {
+  const sample = text.slice(0, SNIFF_LENGTH);
+  const signals = [
+    /^#{1,6}\s+\S/m,
+    /^\s*[-*+]\s+\S/m,
+    /^\s*\d+\.\s+\S/m,
+    /\[[^\]]+\]\([^)]+\)/,
+    /^```/m,
+    /\*\*[^*]+\*\*/,
+    /^>\s+\S/m
+  ];
+  const hits = signals.filter(signal => signal.test(sample)).length;
+  return /^#{1,6}\s+\S/m.test(sample) ? hits >= 1 : hits >= 2;
+};
+
+export const detectFormat = (buffer: Buffer): DocumentFormat => {
+  const head = buffer.subarray(0, 1024).toString('latin1');
+  if (head.includes('%PDF-')) {
+    return 'pdf';
+  }
+
+  const text = decodeUtf8(buffer);
+  if (text === null) {
+    throw new UnsupportedFormatError('Arquivo binário em formato não suportado');
+  }
+
+  if (looksLikeJson(text)) return 'json';
+  if (looksLikeHtml(text)) return 'html';
+  if (detectCsvDelimiter(text)) return 'csv';
+  if (looksLikeMarkdown(text)) return 'markdown';
+  return 'text';
+};
+
+const extractMarkdown = (markdown: string) => {
+  const heading = markdown.match(/^#{1,6}\s+(.+)$/m);
+  const text = markdown
+    .replace(/^```.*$/gm, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^#{1,6}\s+/gm, '')
+    .replace(/^\s*>\s?/gm, '')
+    .replace(/^\s*[-*+]\s+/gm, '')
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[\s(])([*_])([^*_\n]+)\2/g, '$1$3')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/^\s*\|?[-:| ]+\|?\s*$/gm, '')
+    .replace(/\|/g, ' ')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { title: heading ? heading[1].trim() : undefined, text };
+};
+
+// Cada linha vira um parágrafo "coluna: valor; coluna: valor"
+const extractCsv = (csv: string) => {
+  const delimiter = detectCsvDelimiter(csv) || ',';
+  const [header, ...rows] = csv.split(/\r?\n/)
+    .filter(line => line.trim())
+    .map(line => splitCsvLine(line, delimiter));
+
+  const text = rows
+    .map(row => row
+      .map((value, index) => `${header[index] || `coluna ${index + 1}`}: ${value}`)
+      .join('; '))
+    .join('\n\n');
+
+  return { text };
+};
+
+// Achata o JSON em linhas "caminho.da.chave: valor"; itens de listas viram parágrafos
+const extractJson = (json: string) => {
+  const lines: string[] = [];
+
+  const walk = (value: unknown, path: string) => {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => {
+        walk(item, path ? `${path}[${index}]` : `[${index}]`);
+        if (item !== null && typeof item === 'object') lines.push('');
+      });
+    } else if (value !== null && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+        walk(child, path ? `${path}.${key}` : key);
+      }
+    } else if (value !== null && value !== undefined && value !== '') {
+      lines.push(path ? `${path}: ${value}` : String(value));
+    }
+  };
+
+  walk(JSON.parse(json), '');
+  return { text: lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() };
+};
+
+export const extractDocument = async (buffer: Buffer): Promise<ExtractedDocument> => {
+  const format = detectFormat(buffer);
+  const mimeType = MIME_TYPES[format];
+
+  if (format === 'pdf') {
+    return { format, mimeType, pages: await extractPdfPages(buffer) };
+  }
+
+  const raw = buffer.toString('utf-8').replace(/^\uFEFF/, '').replace(/\r\n/g, '\n');
+
+  switch (format) {
+    case 'html':
+      return { format, mimeType, ...extractHtmlText(raw) };
+    case 'json':
+      return { format, mimeType, ...extractJson(raw) };
+    case 'csv':
+      return { format, mimeType, ...extractCsv(raw) };
+    case 'markdown':
+      return { format, mimeType, ...extractMarkdown(raw) };
+    default:
+      return { format, mimeType, text: raw.trim() };
+  }
+};
@@ -0,0 +1,207 @@
+import { Fact } from '../models/Fact.model';
+import { geographyKnowledge } from '../knowledge/geography.knowledge';
+import { politicsKnowledge } from '../knowledge/politics.knowledge';
+import { normalizeText } from './tokenizer.service';
+import { config } from '../config/config';
+
+export const FACT_PREDICATES = {
+  capital: 'capital',
+  leader: 'governante',
+  politicalSystem: 'sistema_politico'
+};
+
+export interface FactAnswer {
+  content: string;
+  factIds: string[];
+}
+
+interface FactTemplate {
+  predicate: string;
+  pattern: RegExp;
+  // Perguntas reversas partem do objeto ("Brasília é capital de qual país?")
+  reverse?: boolean;
+  answer: (subject: string, object: string, determiner?: string) => string;
+}
+
+// Chave usada nas consultas: sem acentos, minúscula e sem artigo inicial
+export const toFactKey = (value: string): string => {
+  return normalizeText(value)
+    .replace(/^(o|a|os|as)\s+/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+// "do" -> "o", "da" -> "a", "de" -> ""
+const toArticle = (determiner?: string) => {
+  const value = (determiner || '').toLowerCase();
+  const article = value.startsWith('d') ? value.slice(1) : value;
+  return article && article !== 'e' ? `${article} ` : '';
+};
+
+// "o" -> "do", "a" -> "da", nada -> "de"
+const toContraction = (determiner?: string) => {
+  const article = toArticle(determiner).trim();
+  return article ? `d${article}` : 'de';
+};
+
+const DETERMINER = '(d[eoa]s?|o|a|os|as)';
+
+const TEMPLATES: FactTemplate[] = [
+  {
+    predicate: FACT_PREDICATES.capital,
+    pattern: new RegExp(`^(?:qual|que)\\s+(?:é\\s+)?(?:a\\s+)?capital\\s+${DETERMINER}\\s+(.+)$`, 'i'),
+    answer: (subject, object, determiner) => `A capital ${toContraction(determiner)} ${subject} é ${object}.`
+  },
+  {
+    predicate: FACT_PREDICATES.capital,
+    pattern: /^(.+?)\s+é\s+(?:a\s+)?capital\s+de\s+(?:qual|que)\s+país$/i,
+    reverse: true,
+    answer: (subject, object) => `${object} é a capital de ${subject}.`
+  },
+  {
+    predicate: FACT_PREDICATES.capital,
+    pattern: /^(?:de\s+)?(?:qual|que)\s+país\s+(?:tem\s+(?:como\s+capital|capital)|a\s+capital\s+é)\s+(.+)$/i,
+    reverse: true,
+    answer: (subject, object) => `${object} é a capital de ${subject}.`
+  },
+  {
+    predicate: FACT_PREDICATES.leader,
+    pattern: new RegExp(
+      `^quem\\s+(?:governa|lidera|comanda|preside|é\\s+o\\s+(?:presidente|líder|lider|governante|chefe\\s+de\\s+estado))\\s+(?:${DETERMINER}\\s+)?(.+)$`,
+      'i'
+    ),
+    answer: (subject, object, determiner) => `Quem governa ${toArticle(determiner)}${subject} é ${object}.`
+  },
+  {
+    predicate: FACT_PREDICATES.leader,
+    pattern: /^(?:de\s+)?(?:qual|que)\s+país\s+(?:é\s+governado\s+por|tem\s+como\s+(?:presidente|líder|lider|governante))\s+(.+)$/i,
+    reverse: true,
+    answer: (subject, object) => `${object} governa ${subject}.`
+  },
+  {
+    predicate: FACT_PREDICATES.leader,
+    pattern: /^(?:de\s+)?(?:qual|que)\s+país\s+(.+?)\s+é\s+(?:o\s+|a\s+)?(?:presidente|líder|lider|governante)$/i,
+    reverse: true,
+    answer: (subject, object) => `${object} governa ${subject}.`
+  },
+  {
+    predicate: FACT_PREDICATES.leader,
+    pattern: /^(.+?)\s+governa\s+(?:qual|que)\s+país$/i,
+    reverse: true,
+    answer: (subject, object) => `${object} governa ${subject}.`
+  },
+  {
+    predicate: FACT_PREDICATES.politicalSystem,
+    pattern: new RegExp(
+      `^qual\\s+(?:é\\s+)?o\\s+(?:sistema|regime)\\s+(?:político|politico|de\\s+governo)\\s+${DETERMINER}\\s+(.+)$`,
+      'i'
+    ),
+    answer: (subject, object, determiner) => `O sistema político ${toContraction(determiner)} ${subject} é ${object}.`
+  },
+  {
+    predicate: FACT_PREDICATES.politicalSystem,
+    pattern: /^(?:qual|que)\s+país\s+(?:é\s+(?:uma?\s+)?|adota\s+(?:a\s+|o\s+)?)(.+)$/i,
+    reverse: true,
+    answer: (subject, object) => `${subject} adota o sistema ${object}.`
+  }
+];
+
+const cleanQuestion = (message: string) => message.replace(/[?!.]+\s*$/, '').trim();
+
+// Responde perguntas que correspondem a um dos modelos usando o armazenamento de fatos
+export const answerFactQuestion = async (tenant: string, message: string): Promise<FactAnswer | null> => {
+  const question = cleanQuestion(message);
+
+  for (const template of TEMPLATES) {
+    const match = question.match(template.pattern);
+    if (!match) continue;
+
+    if (template.reverse) {
+      const object = match[1].trim();
+      const facts = await Fact.find({ tenant, objectKey: toFactKey(object), predicate: template.predicate })
+        .sort('-timestamp');
+      if (facts.length === 0) continue;
+
+      const subjects = facts.map(fact => fact.subject).join(', ');
+      return {
+        content: template.answer(subjects, facts[0].object),
+        factIds: facts.map(fact => fact.id)
+      };
+    }
+
+    const [, determiner, subject] = match;
+    const fact = await Fact.findOne({ tenant, subjectKey: toFactKey(subject), predicate: template.predicate })
+      .sort('-timestamp');
+    if (!fact) continue;
+
+    return {
+      content: template.answer(fact.subject, fact.object, determiner),
+      factIds: [fact.id]
+    };
+  }
+
+  return null;
+};
+
+export const createFact = async (
+  tenant: string,
+  subject: string,
+  predicate: string,
+  object: string,
+  source: string
+) => {
+  return Fact.create({
+    tenant,
+    subject: subject.trim(),
+    predicate: predicate.trim().toLowerCase(),
+    object: object.trim(),
+    subjectKey: toFactKey(subject),
+    objectKey: toFactKey(object),
+    source
+  });
+};
+
+// Popula o armazenamento do tenant padrão com os mapas dos módulos de conhecimento
+const seedFacts = async () => {
+  try {
+    const tenant = config.auth.defaultTenant;
+    const seeds: Array<[Map<string, string>, string]> = [
+      [geographyKnowledge.capitals, FACT_PREDICATES.capital],
+      [politicsKnowledge.leaders, FACT_PREDICATES.leader],
+      [politicsKnowledge.systems, FACT_PREDICATES.politicalSystem]
+    ];
+
+    let created = 0;
+    for (const [facts, predicate] of seeds) {
+      for (const [subject, object] of Array.from(facts.entries())) {
+        const result = await Fact.updateOne(
+          // Fatos iniciais gravados antes da separação por tenant também contam
+          { tenant: { $in: [tenant, null] }, subjectKey: toFactKey(subject), predicate, source: 'seed' },
+          {
+            $setOnInsert: {
+              tenant,
+              subject,
+              predicate,
+              object,
+              subjectKey: toFactKey(subject),
+              objectKey: toFactKey(object),
+              source: 'seed',
+              timestamp: new Date()
+            }
+          },
+          { upsert: true }
+        );
+        created += result.upsertedCount;
+      }
+    }
+
+    if (created > 0) {
+      console.log(`✅ ${created} fatos iniciais cadastrados`);
+    }
+  } catch (error) {
+    console.error('❌ Erro ao popular fatos:', error);
+  }
+};
+
+// Chama a função quando o servidor iniciar
+seedFacts();
@@ -0,0 +1,91 @@
+import { Types } from 'mongoose';
+import { Knowledge } from '../models/Knowledge.model';
+import { Feedback, FeedbackRating } from '../models/Feedback.model';
+import { config } from '../config/config';
+import { findDuplicate } from './dedup.service';
+import { recordCreated, recordUpdated, toSnapshot } from './revision.service';
+
+// Avaliações dos usuários sobre as respostas: ajustam a confiança do conhecimento
+// usado, marcam para revisão entradas com avaliações negativas repetidas e
+// transformam correções em novos conhecimentos.
+
+export interface FeedbackInput {
+  tenant: string;
+  knowledgeId: string;
+  rating: FeedbackRating;
+  correction?: string;
+  comment?: string;
+  sessionId?: string;
+  // Autor registrado no histórico das alterações
+  actor: string;
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+// Confiança efetiva de uma entrada, usada também no ranking
+export const getConfidence = (doc: { confidence?: number }) => {
+  return typeof doc.confidence === 'number' ? doc.confidence : config.feedback.defaultConfidence;
+};
+
+// Retorna null quando o conhecimento não existe no tenant
+export const applyFeedback = async (input: FeedbackInput) => {
+  const knowledge = await Knowledge.findOne({ _id: input.knowledgeId, tenant: input.tenant });
+  if (!knowledge) {
+    return null;
+  }
+
+  // Uma correção sempre conta como avaliação negativa da resposta original
+  const rating: FeedbackRating = input.correction ? 'negative' : input.rating;
+  const step = config.feedback.confidenceStep;
+  const before = toSnapshot(knowledge);
+
+  knowledge.confidence = clamp(getConfidence(knowledge) + (rating === 'positive' ? step : -step));
+  if (rating === 'positive') {
+    knowledge.positiveFeedback = (knowledge.positiveFeedback || 0) + 1;
+  } else {
+    knowledge.negativeFeedback = (knowledge.negativeFeedback || 0) + 1;
+    if (!knowledge.flagged && knowledge.negativeFeedback >= config.feedback.flagThreshold) {
+      knowledge.flagged = true;
+      knowledge.flaggedAt = new Date();
+      console.log('🚩 Conhecimento marcado para revisão:', knowledge.id);
+    }
+  }
+  await knowledge.save();
+  await recordUpdated(input.tenant, before, knowledge, { actor: input.actor, origin: 'feedback', reason: input.comment });
+
+  let correction = null;
+  // Uma correção que já é conhecida reaproveita a entrada existente
+  const known = input.correction ? await findDuplicate(input.tenant, input.correction) : null;
+  if (known) {
+    correction = await Knowledge.findById(known.id);
+  } else if (input.correction) {
+    correction = await Knowledge.create({
+      tenant: input.tenant,
+      content: input.correction,
+      term: knowledge.term,
+      type: knowledge.type,
+      category: knowledge.category,
+      source: 'user_correction',
+      path: knowledge.path,
+      confidence: 1,
+      timestamp: new Date()
+    });
+    await recordCreated(input.tenant, [correction], {
+      actor: input.actor,
+      origin: 'correction',
+      reason: input.comment || `correção de ${knowledge.id}`
+    });
+    console.log('✏️ Correção registrada para', knowledge.id);
+  }
+
+  const feedback = await Feedback.create({
+    tenant: input.tenant,
+    knowledgeId: knowledge._id,
+    rating,
+    correctionId: correction?._id,
+    comment: input.comment,
+    sessionId: input.sessionId && Types.ObjectId.isValid(input.sessionId) ? input.sessionId : undefined
+  });
+
+  return { feedback, knowledge, correction };
+};
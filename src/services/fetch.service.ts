@@ -0,0 +1,232 @@
+import axios, { AxiosError } from 'axios';
+import dns, { LookupAddress } from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { config } from '../config/config';
+import { detectFormat, DocumentFormat, UnsupportedFormatError } from './extraction.service';
+
+// Download de URLs informadas por usuários (learn, crawler, jobs). Antes de
+// conectar, o host é resolvido e endereços privados, de loopback e de
+// metadados de nuvem são recusados; a checagem se repete a cada redirecionamento
+// e na própria conexão, para não ser contornada por DNS rebinding.
+
+export type FetchErrorCode = 'invalid_url' | 'blocked' | 'not_allowed' | 'redirects' | 'status' | 'timeout' | 'too_large' | 'unsupported';
+
+export class FetchError extends Error {
+  constructor(
+    public readonly code: FetchErrorCode,
+    message: string,
+    // Status HTTP da resposta, nos erros 'status'
+    public readonly status?: number
+  ) {
+    super(message);
+    this.name = 'FetchError';
+  }
+}
+
+export interface FetchOptions {
+  timeout?: number;
+  maxSize?: number;
+  userAgent?: string;
+  headers?: Record<string, string>;
+  // Endereços vindos da configuração (ex.: instância SearxNG), e não de usuários:
+  // dispensa a checagem de rede e a lista de domínios, mas mantém os demais limites
+  trusted?: boolean;
+}
+
+export interface FetchedResource {
+  // URL final, depois dos redirecionamentos
+  url: string;
+  status: number;
+  contentType: string;
+  data: Buffer;
+}
+
+const BLOCKED_HOSTNAMES = ['localhost', 'metadata', 'metadata.google.internal'];
+
+// Redes que não devem ser alcançadas a partir de URLs de usuários
+const blockList = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24],
+  ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24], ['203.0.113.0', 24],
+  ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([address, prefix]) => blockList.addSubnet(address as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([address, prefix]) => blockList.addSubnet(address as string, prefix as number, 'ipv6'));
+
+export const isBlockedAddress = (address: string) => {
+  // IPv4 mapeado em IPv6 (::ffff:10.0.0.1) vale pelo endereço IPv4
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return isBlockedAddress(mapped[1]);
+
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return blockList.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+const isAllowedDomain = (hostname: string) => {
+  const allowed = config.fetch.allowedDomains;
+  return allowed.length === 0 || allowed.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+};
+
+// Valida protocolo, domínio e os endereços para os quais o host resolve
+export const checkUrl = async (value: string): Promise<URL> => {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new FetchError('invalid_url', `URL inválida: ${value}`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new FetchError('invalid_url', `Protocolo não suportado: ${url.protocol}`);
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/^\[|\]$/g, '').replace(/\.$/, '');
+  if (!isAllowedDomain(hostname)) {
+    throw new FetchError('not_allowed', `Domínio fora da lista permitida: ${hostname}`);
+  }
+  if (config.fetch.allowPrivateNetworks) {
+    return url;
+  }
+  if (BLOCKED_HOSTNAMES.includes(hostname) || hostname.endsWith('.localhost') || hostname.endsWith('.internal')) {
+    throw new FetchError('blocked', `Host bloqueado: ${hostname}`);
+  }
+
+  const addresses = net.isIP(hostname)
+    ? [hostname]
+    : await dns.promises.lookup(hostname, { all: true })
+      .then(results => results.map(result => result.address))
+      .catch(() => {
+        throw new FetchError('invalid_url', `Não foi possível resolver ${hostname}`);
+      });
+  if (addresses.length === 0 || addresses.some(isBlockedAddress)) {
+    throw new FetchError('blocked', `Endereço de rede não permitido para ${hostname}`);
+  }
+  return url;
+};
+
+// Resolução usada nas conexões: recusa o endereço obtido no momento de conectar
+const safeLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, results: LookupAddress[]) => {
+    if (error) {
+      callback(error);
+      return;
+    }
+    if (!config.fetch.allowPrivateNetworks && results.some(result => isBlockedAddress(result.address))) {
+      callback(new FetchError('blocked', `Endereço de rede não permitido para ${hostname}`));
+      return;
+    }
+    if (options.all) {
+      callback(null, results);
+    } else {
+      callback(null, results[0].address, results[0].family);
+    }
+  });
+}) as unknown as typeof dns.lookup;
+
+const httpAgent = new http.Agent({ lookup: safeLookup });
+const httpsAgent = new https.Agent({ lookup: safeLookup });
+
+const toFetchError = (error: unknown, url: string, maxSize: number, timeout: number) => {
+  if (error instanceof FetchError) return error;
+  const cause = (error as AxiosError).cause;
+  if (cause instanceof FetchError) return cause;
+
+  const message = (error as Error).message || String(error);
+  if (/maxContentLength/i.test(message)) {
+    return new FetchError('too_large', `Conteúdo de ${url} excede ${maxSize} bytes`);
+  }
+  if ((error as AxiosError).code === 'ECONNABORTED' || (error as AxiosError).code === 'ERR_CANCELED' || /timeout/i.test(message)) {
+    return new FetchError('timeout', `Tempo esgotado (${timeout}ms) ao baixar ${url}`);
+  }
+  return error as Error;
+};
+
+// Baixa a URL seguindo até config.fetch.maxRedirects redirecionamentos, cada um validado
+export const fetchUrl = async (value: string, options: FetchOptions = {}): Promise<FetchedResource> => {
+  const timeout = options.timeout || config.fetch.timeout;
+  const maxSize = options.maxSize || config.fetch.maxSize;
+  // O tempo limite vale para a operação inteira, redirecionamentos incluídos
+  const signal = AbortSignal.timeout(timeout);
+  let current = value;
+
+  for (let redirects = 0; ; redirects++) {
+    const url = options.trusted ? new URL(current) : await checkUrl(current);
+
+    let response;
+    try {
+      response = await axios.get<ArrayBuffer>(url.href, {
+        responseType: 'arraybuffer',
+        timeout,
+        signal,
+        maxContentLength: maxSize,
+        maxRedirects: 0,
+        validateStatus: () => true,
+        ...(!options.trusted && { httpAgent, httpsAgent }),
+        headers: { 'User-Agent': options.userAgent || config.fetch.userAgent, ...options.headers }
+      });
+    } catch (error) {
+      throw toFetchError(error, url.href, maxSize, timeout);
+    }
+
+    const location = response.headers.location;
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (redirects >= config.fetch.maxRedirects) {
+        throw new FetchError('redirects', `Mais de ${config.fetch.maxRedirects} redirecionamentos a partir de ${value}`);
+      }
+      current = new URL(String(location), url).href;
+      continue;
+    }
+    if (response.status >= 400) {
+      throw new FetchError('status', `${url.href} respondeu com status ${response.status}`, response.status);
+    }
+
+    return {
+      url: url.href,
+      status: response.status,
+      contentType: String(response.headers['content-type'] || '').toLowerCase(),
+      data: Buffer.from(response.data)
+    };
+  }
+};
+
+// Decide o formato pelo conteúdo e pelo Content-Type, nunca pela extensão da URL.
+// PDFs são reconhecidos pela assinatura mesmo quando o servidor informa outro tipo.
+export const detectResourceFormat = ({ contentType, data }: FetchedResource): DocumentFormat => {
+  if (data.subarray(0, 1024).toString('latin1').includes('%PDF-')) return 'pdf';
+  if (/html|xhtml/.test(contentType)) return 'html';
+  if (/[/+]json/.test(contentType)) return 'json';
+  if (contentType.includes('text/csv')) return 'csv';
+  if (contentType.includes('markdown')) return 'markdown';
+
+  // Tipos genéricos (octet-stream, text/plain) ou ausentes: decide pelo conteúdo
+  try {
+    return detectFormat(data);
+  } catch (error) {
+    if (error instanceof UnsupportedFormatError) {
+      throw new FetchError('unsupported', `Formato não suportado${contentType ? ` (${contentType})` : ''}`);
+    }
+    throw error;
+  }
+};
+
+// Status HTTP com que cada falha é devolvida pela API
+export const fetchErrorStatus = (error: FetchError) => {
+  switch (error.code) {
+    case 'too_large':
+      return 413;
+    case 'unsupported':
+      return 415;
+    case 'timeout':
+      return 504;
+    case 'redirects':
+    case 'status':
+      return 502;
+    default:
+      return 400;
+  }
+};
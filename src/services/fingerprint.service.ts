@@ -0,0 +1,94 @@
+import { createHash } from 'crypto';
+import { config } from '../config/config';
+import { normalizeText, tokenize } from './tokenizer.service';
+
+// Impressões digitais do conteúdo usadas na detecção de duplicatas: hash do texto
+// normalizado para cópias exatas e assinatura minhash dos pares de palavras para
+// quase-duplicatas (estimativa da similaridade de Jaccard).
+
+export interface ContentFingerprint {
+  contentHash: string;
+  // Ausentes em textos curtos demais para uma comparação aproximada confiável
+  minhash?: number[];
+  minhashBands?: string[];
+}
+
+const MINHASH_SIZE = 64;
+
+// A assinatura é dividida em faixas; entradas com alguma faixa idêntica são
+// candidatas a quase-duplicata. Com 16 faixas de 4 valores, pares com
+// similaridade acima de ~0,5 quase sempre viram candidatos.
+const MINHASH_BANDS = 16;
+const ROWS_PER_BAND = MINHASH_SIZE / MINHASH_BANDS;
+
+// Minúsculas, sem acentos, sem pontuação (operadores matemáticos são mantidos
+// para que "2 + 2 = 4" e "2 * 2 = 4" não colidam) e com espaços colapsados
+export const normalizeContent = (text: string): string => {
+  return normalizeText(text)
+    .replace(/[+\-*\/=^%]/g, ' $& ')
+    .replace(/[^a-z0-9+\-*\/=^%]+/g, ' ')
+    .trim();
+};
+
+export const hashContent = (text: string): string => {
+  return createHash('sha256').update(normalizeContent(text)).digest('hex');
+};
+
+// FNV-1a de 32 bits com base variável, para obter hashes independentes
+const fnv1a = (text: string, seed: number): number => {
+  let h = seed;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Pares de palavras consecutivas: sensíveis à ordem, mas tolerantes a pequenas edições
+const shingles = (tokens: string[]): string[] => {
+  return Array.from(new Set(tokens.slice(1).map((token, i) => `${tokens[i]} ${token}`)));
+};
+
+export const minhash = (text: string): number[] | null => {
+  const tokens = tokenize(text);
+  if (tokens.length < config.dedup.minTokens) {
+    return null;
+  }
+
+  const signature = new Array<number>(MINHASH_SIZE).fill(0xffffffff);
+  for (const shingle of shingles(tokens)) {
+    // Cada função de hash é derivada de duas bases: h_i = a + i * b
+    const a = fnv1a(shingle, 0x811c9dc5);
+    const b = fnv1a(shingle, 0x01000193) | 1;
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+      const value = (a + Math.imul(i, b)) >>> 0;
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+  return signature;
+};
+
+export const minhashBands = (signature: number[]): string[] => {
+  return Array.from({ length: MINHASH_BANDS }, (_, band) => {
+    const rows = signature.slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND);
+    return `${band}:${fnv1a(rows.join(','), 0x811c9dc5).toString(16)}`;
+  });
+};
+
+// Fração de posições iguais nas assinaturas, que estima a similaridade de Jaccard
+export const similarity = (a: number[], b: number[]): number => {
+  if (!a || !b || a.length !== b.length) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) equal++;
+  }
+  return equal / a.length;
+};
+
+export const fingerprint = (text: string): ContentFingerprint => {
+  const signature = minhash(text);
+  return {
+    contentHash: hashContent(text),
+    ...(signature && { minhash: signature, minhashBands: minhashBands(signature) })
+  };
+};
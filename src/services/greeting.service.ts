@@ -0,0 +1,7 @@
+import { normalizeText } from './tokenizer.service';
+
+// Mensagens que são só um cumprimento ("oi", "olá!", "bom dia", "e aí?");
+// cumprimentos seguidos de pergunta não contam
+const GREETING = /^(oi+|ola|ei|e ai|opa|hey|hello|hi|bom dia|boa tarde|boa noite|tudo bem|tudo bom)(?:[\s,!.]+(tudo bem|tudo bom|pessoal))?[\s!.,?]*$/;
+
+export const isGreeting = (message: string) => GREETING.test(normalizeText(message).trim());
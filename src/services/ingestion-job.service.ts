@@ -0,0 +1,284 @@
+import { IngestionJob, IJobItem } from '../models/IngestionJob.model';
+import { config } from '../config/config';
+import { ingestUrl } from './ingestion.service';
+import { FetchError } from './fetch.service';
+import { crawlSite, CrawlOptions } from './crawler.service';
+import { RevisionContext, SYSTEM_ACTOR } from './revision.service';
+
+// Fila persistente de ingestão de URLs. Os jobs ficam no Mongo e são processados
+// por um worker dentro do próprio processo, com tentativas e espera exponencial.
+
+let workerTimer: NodeJS.Timeout | null = null;
+let busy = false;
+
+export const enqueueIngestionJob = async (
+  tenant: string,
+  urls: string[],
+  crawl?: CrawlOptions,
+  revision?: Pick<RevisionContext, 'actor' | 'reason'>
+) => {
+  const job = await IngestionJob.create({
+    tenant,
+    crawl,
+    actor: revision?.actor || SYSTEM_ACTOR,
+    reason: revision?.reason,
+    maxAttempts: config.jobs.maxAttempts,
+    items: urls.map(url => ({ url, status: 'pending', attempts: 0 }))
+  });
+  console.log(`🗂️ Job de ingestão ${job.id} criado com ${urls.length} URLs`);
+  return job;
+};
+
+// Visão do job para a API, com o progresso calculado a partir dos itens
+export const toJobView = (job: any) => {
+  const items: IJobItem[] = job.items;
+  const count = (status: string) => items.filter(item => item.status === status).length;
+  const total = items.length;
+  const done = count('completed') + count('failed') + count('cancelled');
+
+  return {
+    id: job.id,
+    // Lote do histórico com tudo o que o job ingeriu (reversível de uma vez)
+    batchId: job.id,
+    status: job.status,
+    cancelRequested: job.cancelRequested,
+    progress: {
+      total,
+      completed: count('completed'),
+      failed: count('failed'),
+      cancelled: count('cancelled'),
+      pending: count('pending') + count('running'),
+      percent: total > 0 ? Math.round((done / total) * 100) : 0
+    },
+    items,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt
+  };
+};
+
+// Jobs na fila são cancelados na hora; em execução, o worker para antes da próxima URL
+export const cancelIngestionJob = async (tenant: string, id: string) => {
+  const queued = await IngestionJob.findOneAndUpdate(
+    { _id: id, tenant, status: 'queued' },
+    {
+      $set: {
+        status: 'cancelled',
+        cancelRequested: true,
+        finishedAt: new Date(),
+        'items.$[pending].status': 'cancelled'
+      }
+    },
+    { new: true, arrayFilters: [{ 'pending.status': 'pending' }] }
+  );
+  if (queued) return queued;
+
+  return IngestionJob.findOneAndUpdate(
+    { _id: id, tenant, status: 'running' },
+    { $set: { cancelRequested: true } },
+    { new: true }
+  );
+};
+
+// Erros de rede do Node que costumam passar sozinhos
+const TRANSIENT_NETWORK_CODES = [
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'EHOSTUNREACH', 'ENETUNREACH'
+];
+
+// Respostas de servidor sobrecarregado ou fora do ar
+const isTransientStatus = (status?: number) => {
+  return status === undefined || status === 408 || status === 429 || status >= 500;
+};
+
+// Só falhas transitórias (rede, tempo esgotado, servidor indisponível, banco)
+// valem nova tentativa; URLs recusadas, conteúdo ilegível e opções inválidas
+// falhariam do mesmo jeito
+export const isRetryableError = (error: any): boolean => {
+  if (error instanceof FetchError) {
+    return error.code === 'timeout' || (error.code === 'status' && isTransientStatus(error.status));
+  }
+  if (TRANSIENT_NETWORK_CODES.includes(error?.code)) return true;
+  return /^Mongo(Network|NetworkTimeout|ServerSelection)Error$/.test(error?.name || '');
+};
+
+const isDue = (item: IJobItem, now: Date) => {
+  return item.status === 'pending' && (!item.nextAttemptAt || item.nextAttemptAt <= now);
+};
+
+const claimJob = () => {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - config.jobs.lockTimeout);
+
+  return IngestionJob.findOneAndUpdate(
+    {
+      status: { $in: ['queued', 'running'] },
+      $and: [
+        { $or: [{ lockedAt: null }, { lockedAt: { $lt: staleBefore } }] },
+        {
+          $or: [
+            { cancelRequested: true },
+            { 'items.status': 'running' },
+            {
+              items: {
+                $elemMatch: {
+                  status: 'pending',
+                  $or: [{ nextAttemptAt: null }, { nextAttemptAt: { $lte: now } }]
+                }
+              }
+            }
+          ]
+        }
+      ]
+    },
+    { $set: { status: 'running', lockedAt: now } },
+    { new: true, sort: { createdAt: 1 } }
+  );
+};
+
+const processItem = async (job: any, item: IJobItem) => {
+  // Tudo o que o job ingere forma um único lote no histórico
+  const revision: RevisionContext = {
+    actor: job.actor || SYSTEM_ACTOR,
+    origin: job.crawl ? 'crawl' : 'url',
+    reason: job.reason,
+    batchId: job.id
+  };
+
+  try {
+    if (job.crawl) {
+      const crawl = await crawlSite(job.tenant, item.url, job.crawl, revision);
+      item.passages = crawl.documents.reduce((total, document) => total + document.passages, 0);
+      item.error = crawl.errors.length > 0 ? `${crawl.errors.length} páginas com erro` : undefined;
+      item.status = 'completed';
+      return;
+    }
+
+    const outcome = await ingestUrl(job.tenant, item.url, revision);
+    item.error = undefined;
+
+    if (outcome.type === 'links') {
+      // Os PDFs listados na página entram no próprio job
+      const known = new Set(job.items.map((existing: IJobItem) => existing.url));
+      for (const link of outcome.links) {
+        if (!known.has(link)) {
+          job.items.push({ url: link, status: 'pending', attempts: 0, discoveredFrom: item.url });
+          known.add(link);
+        }
+      }
+    } else if (outcome.type === 'duplicate') {
+      item.error = 'URL já foi processada anteriormente';
+    } else {
+      item.documentId = outcome.result.documentId;
+      item.passages = outcome.result.passages;
+    }
+
+    item.status = 'completed';
+  } catch (error) {
+    console.error('❌ Erro ao processar URL do job:', item.url, error.message);
+    item.error = error.message;
+
+    if (!isRetryableError(error) || item.attempts >= job.maxAttempts) {
+      item.status = 'failed';
+    } else {
+      const delay = config.jobs.retryBaseDelay * Math.pow(2, item.attempts - 1);
+      item.status = 'pending';
+      item.nextAttemptAt = new Date(Date.now() + delay);
+      console.log(`🔁 Nova tentativa de ${item.url} em ${delay}ms`);
+    }
+  }
+};
+
+// Renova a trava enquanto um item é processado, para que um rastreamento mais
+// longo que config.jobs.lockTimeout não seja retomado e executado de novo
+const keepLocked = (job: any) => {
+  const timer = setInterval(() => {
+    IngestionJob.updateOne({ _id: job._id }, { $set: { lockedAt: new Date() } }).catch(error => {
+      console.error('⚠️ Erro ao renovar a trava do job:', job.id, error.message);
+    });
+  }, Math.max(1000, Math.floor(config.jobs.lockTimeout / 3)));
+  timer.unref();
+  return () => clearInterval(timer);
+};
+
+const processJob = async (job: any) => {
+  console.log('⚙️ Processando job de ingestão:', job.id);
+  if (!job.startedAt) job.startedAt = new Date();
+
+  // Itens que estavam em execução quando o processo caiu voltam para a fila
+  for (const item of job.items as IJobItem[]) {
+    if (item.status === 'running') item.status = 'pending';
+  }
+
+  while (true) {
+    const current = await IngestionJob.findById(job._id).select('cancelRequested');
+    if (!current || current.cancelRequested) {
+      job.cancelRequested = true;
+      break;
+    }
+
+    const item = (job.items as IJobItem[]).find(candidate => isDue(candidate, new Date()));
+    if (!item) break;
+
+    item.status = 'running';
+    item.attempts += 1;
+    job.lockedAt = new Date();
+    await job.save();
+
+    const release = keepLocked(job);
+    try {
+      await processItem(job, item);
+    } finally {
+      release();
+    }
+    job.lockedAt = new Date();
+    await job.save();
+  }
+
+  const items = job.items as IJobItem[];
+  if (job.cancelRequested) {
+    items.forEach(item => {
+      if (item.status === 'pending') item.status = 'cancelled';
+    });
+    job.status = 'cancelled';
+    job.finishedAt = new Date();
+  } else if (items.some(item => item.status === 'pending')) {
+    // Restam apenas itens aguardando nova tentativa: libera o job para depois
+    job.status = 'running';
+  } else {
+    job.status = items.every(item => item.status === 'failed') ? 'failed' : 'completed';
+    job.finishedAt = new Date();
+    console.log(`✅ Job de ingestão ${job.id} finalizado: ${job.status}`);
+  }
+
+  job.lockedAt = undefined;
+  await job.save();
+};
+
+const tick = async () => {
+  if (busy) return;
+  busy = true;
+  try {
+    let job = await claimJob();
+    while (job) {
+      await processJob(job);
+      job = await claimJob();
+    }
+  } catch (error) {
+    console.error('❌ Erro no worker de ingestão:', error);
+  } finally {
+    busy = false;
+  }
+};
+
+export const startIngestionWorker = () => {
+  if (workerTimer) return;
+  workerTimer = setInterval(tick, config.jobs.pollInterval);
+  console.log('🛠️ Worker de ingestão iniciado');
+};
+
+export const stopIngestionWorker = () => {
+  if (workerTimer) {
+    clearInterval(workerTimer);
+    workerTimer = null;
+  }
+};
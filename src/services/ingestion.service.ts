@@ -0,0 +1,163 @@
+import * as cheerio from 'cheerio';
+import { Knowledge } from '../models/Knowledge.model';
+import { SourceDocument } from '../models/SourceDocument.model';
+import { chunkPages, chunkText, PAGE_SEPARATOR } from './chunking.service';
+import { extractDocument, extractHtmlText, extractPdfPages } from './extraction.service';
+import { detectResourceFormat, fetchUrl, FetchError } from './fetch.service';
+import { partitionDuplicates } from './dedup.service';
+import { recordCreated, RevisionContext } from './revision.service';
+
+export interface DocumentInput {
+  tenant: string;
+  source: string;
+  title?: string;
+  mimeType?: string;
+  // Texto corrido (HTML, texto) ou páginas separadas (PDF)
+  text?: string;
+  pages?: string[];
+  // Autoria e origem registradas no histórico; sem batchId, o documento é o lote
+  revision: RevisionContext;
+}
+
+export interface IngestionResult {
+  documentId: string;
+  source: string;
+  length: number;
+  passages: number;
+  // Passagens descartadas por já existirem (igual ou quase igual) no tenant
+  duplicates: number;
+}
+
+// Salva o documento de origem e suas passagens inéditas como Knowledge do tipo 'passage'
+export const ingestDocument = async (input: DocumentInput): Promise<IngestionResult> => {
+  const pages = input.pages;
+  const text = pages ? pages.join(PAGE_SEPARATOR) : (input.text || '');
+
+  // O índice original de cada passagem é mantido para preservar a ordem no documento
+  const chunks = (pages ? chunkPages(pages) : chunkText(text))
+    .map((passage, chunkIndex) => ({ ...passage, chunkIndex }));
+  const { unique: passages, duplicates } = await partitionDuplicates(input.tenant, chunks);
+
+  const document = await SourceDocument.create({
+    tenant: input.tenant,
+    source: input.source,
+    title: input.title,
+    mimeType: input.mimeType,
+    pageCount: pages ? pages.length : undefined,
+    length: text.length,
+    passageCount: passages.length
+  });
+
+  const inserted = await Knowledge.insertMany(passages.map(passage => ({
+    tenant: input.tenant,
+    content: passage.content,
+    source: input.source,
+    path: `documents/${document.id}`,
+    type: 'passage',
+    category: 'document',
+    documentId: document._id,
+    page: passage.page,
+    chunkIndex: passage.chunkIndex,
+    startOffset: passage.startOffset,
+    endOffset: passage.endOffset,
+    timestamp: new Date()
+  })));
+  await recordCreated(input.tenant, inserted, { ...input.revision, batchId: input.revision.batchId || document.id });
+
+  console.log(`📚 Documento ${input.source} salvo em ${passages.length} passagens (${duplicates.length} duplicadas)`);
+
+  return {
+    documentId: document.id,
+    source: input.source,
+    length: text.length,
+    passages: passages.length,
+    duplicates: duplicates.length
+  };
+};
+
+// Resolve links relativos e remove o fragmento, para que a mesma página
+// não seja visitada duas vezes
+export const normalizeUrl = (href: string, base?: string): string | null => {
+  try {
+    const url = new URL(href, base);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+    url.hash = '';
+    return url.href;
+  } catch {
+    return null;
+  }
+};
+
+// Resultado do processamento de uma URL: documento salvo, página que apenas
+// lista PDFs (que devem ser processados em seguida) ou URL já conhecida
+export type UrlIngestionOutcome =
+  | { type: 'document'; result: IngestionResult }
+  | { type: 'links'; links: string[] }
+  | { type: 'duplicate' };
+
+export const ingestPdfUrl = async (tenant: string, url: string, revision: RevisionContext): Promise<IngestionResult> => {
+  console.log('📥 Baixando PDF:', url);
+  const resource = await fetchUrl(url);
+  if (detectResourceFormat(resource) !== 'pdf') {
+    throw new FetchError('unsupported', `${url} não é um PDF (${resource.contentType || 'sem Content-Type'})`);
+  }
+  const pages = await extractPdfPages(resource.data);
+  const result = await ingestDocument({ tenant, source: url, pages, mimeType: 'application/pdf', revision });
+  console.log('✅ PDF processado com sucesso:', url);
+  return result;
+};
+
+export const ingestUrl = async (tenant: string, url: string, revision: RevisionContext): Promise<UrlIngestionOutcome> => {
+  const resource = await fetchUrl(url);
+  const format = detectResourceFormat(resource);
+  console.log(`📥 ${url} baixado como ${format} (${resource.data.length} bytes)`);
+
+  if (format !== 'html') {
+    if (await SourceDocument.exists({ tenant, source: url })) {
+      return { type: 'duplicate' };
+    }
+    // PDFs e demais formatos são reconhecidos pelo conteúdo, com ou sem extensão na URL
+    const document = await extractDocument(resource.data);
+    const result = await ingestDocument({
+      tenant,
+      source: url,
+      title: document.title,
+      text: document.text,
+      pages: document.pages,
+      mimeType: document.mimeType,
+      revision
+    });
+    console.log(`✅ Documento ${document.format} processado:`, url);
+    return { type: 'document', result };
+  }
+
+  // Verifica se é uma página com múltiplos PDFs
+  const html = resource.data.toString('utf-8');
+  const $ = cheerio.load(html);
+
+  // Coleta todos os links PDF da página, resolvendo endereços relativos
+  const pdfLinks = Array.from(new Set(
+    $('a[href]')
+      .map((_, el) => normalizeUrl($(el).attr('href')!, resource.url))
+      .get()
+      .filter((link: string) => new URL(link).pathname.toLowerCase().endsWith('.pdf'))
+  ));
+
+  console.log('📑 PDFs encontrados:', pdfLinks.length);
+  if (pdfLinks.length > 0) {
+    return { type: 'links', links: pdfLinks };
+  }
+
+  const existingDocument = await SourceDocument.findOne({ tenant, source: url });
+  if (existingDocument) {
+    return { type: 'duplicate' };
+  }
+
+  // Se não encontrou PDFs, processa a página normalmente
+  console.log('🔍 Processando página HTML');
+  const { title, text } = extractHtmlText(html);
+  const result = await ingestDocument({ tenant, source: url, title, text, mimeType: 'text/html', revision });
+  console.log('✅ Página HTML processada, tamanho:', text.length);
+
+  return { type: 'document', result };
+};
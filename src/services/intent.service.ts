@@ -0,0 +1,164 @@
+import { config } from '../config/config';
+import { AuthContext } from './auth.service';
+import { IConversationTurn } from '../models/Conversation.model';
+import { detectLanguage } from './language.service';
+import { Citation } from './answer-extraction.service';
+
+// Pipeline de intenções do chat. Cada intenção (saudação, cálculo, ensino,
+// fatos, busca...) é registrada pelo seu próprio módulo em src/intents com um
+// reconhecedor, uma prioridade e um handler; as mensagens passam pelos
+// handlers habilitados em ordem de prioridade até que um deles responda.
+
+export type AnswerType =
+  | 'greeting'
+  | 'datetime'
+  | 'calculation'
+  | 'learning'
+  | 'taught_fact'
+  | 'passage'
+  | 'web_search'
+  | 'feedback'
+  | 'fallback';
+
+export interface AnswerSource {
+  id: string;
+  source: string;
+  type?: string;
+  score?: number;
+  documentId?: string;
+  page?: number;
+  // Trecho usado na resposta, para o frontend apontar o local exato na fonte
+  citation?: Citation;
+}
+
+export interface AnswerAlternative extends AnswerSource {
+  content: string;
+}
+
+// Etapa avaliada na escolha da resposta, exposta no modo de depuração
+export interface DebugStep {
+  step: string;
+  matched: boolean;
+  detail?: Record<string, unknown>;
+}
+
+export interface IntentAnswer {
+  content: string;
+  confidence: number;
+  type: AnswerType;
+  source?: string;
+  sources?: AnswerSource[];
+  alternatives?: AnswerAlternative[];
+}
+
+export interface LLMResponse extends IntentAnswer {
+  sources: AnswerSource[];
+  alternatives: AnswerAlternative[];
+  // Handler que respondeu; null quando nenhum respondeu
+  intent: string | null;
+  debug: DebugStep[];
+}
+
+export interface ResponseContext {
+  auth: AuthContext;
+  history: IConversationTurn[];
+  sessionId?: string;
+}
+
+export interface IntentContext extends ResponseContext {
+  // Idioma da mensagem, detectado uma única vez por resposta
+  language(): Promise<string>;
+  // Acrescenta detalhes à etapa atual no modo de depuração
+  trace(detail: Record<string, unknown>): void;
+}
+
+export interface IntentHandler<T = unknown> {
+  name: string;
+  // Handlers com prioridade menor são tentados primeiro
+  priority: number;
+  // O que foi reconhecido na mensagem (repassado ao handler), ou null quando não se aplica
+  match(message: string, context: IntentContext): T | null | undefined | Promise<T | null | undefined>;
+  // Null deixa a mensagem para os próximos handlers
+  handle(message: string, match: T, context: IntentContext): IntentAnswer | null | Promise<IntentAnswer | null>;
+}
+
+export class IntentRegistrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'IntentRegistrationError';
+  }
+}
+
+const handlers: IntentHandler<any>[] = [];
+
+export const registerIntent = <T>(handler: IntentHandler<T>) => {
+  if (handlers.some(registered => registered.name === handler.name)) {
+    throw new IntentRegistrationError(`Intenção já registrada: ${handler.name}`);
+  }
+  handlers.push(handler);
+  handlers.sort((a, b) => a.priority - b.priority);
+};
+
+export const unregisterIntent = (name: string) => {
+  const index = handlers.findIndex(handler => handler.name === name);
+  if (index >= 0) handlers.splice(index, 1);
+};
+
+// Habilitada quando consta em INTENTS_ENABLED (se definida) e não consta em INTENTS_DISABLED
+export const isIntentEnabled = (name: string) => {
+  const { enabled, disabled } = config.intents;
+  return (enabled.length === 0 || enabled.includes(name)) && !disabled.includes(name);
+};
+
+export const listIntents = () => {
+  return handlers.map(({ name, priority }) => ({ name, priority, enabled: isIntentEnabled(name) }));
+};
+
+const NO_ANSWER = 'Desculpe, não consegui processar sua pergunta.';
+
+export const runIntents = async (message: string, context: ResponseContext): Promise<LLMResponse> => {
+  const debug: DebugStep[] = [];
+  let language: Promise<string> | null = null;
+  const intentContext: IntentContext = {
+    ...context,
+    language: () => (language = language || detectLanguage(message)),
+    trace: detail => {
+      const step = debug[debug.length - 1];
+      if (step) step.detail = { ...step.detail, ...detail };
+    }
+  };
+  const respond = (intent: string | null, answer: IntentAnswer): LLMResponse => ({
+    sources: [],
+    alternatives: [],
+    ...answer,
+    intent,
+    debug
+  });
+
+  try {
+    for (const handler of handlers) {
+      if (!isIntentEnabled(handler.name)) continue;
+
+      debug.push({ step: handler.name, matched: false });
+      const match = await handler.match(message, intentContext);
+      if (match === null || match === undefined || match === false) continue;
+
+      debug[debug.length - 1].matched = true;
+      const answer = await handler.handle(message, match, intentContext);
+      if (answer) {
+        console.log('🎯 Intenção:', handler.name);
+        return respond(handler.name, answer);
+      }
+    }
+
+    return respond(null, { content: NO_ANSWER, confidence: 0, type: 'fallback' });
+  } catch (error) {
+    console.error('❌ Erro:', error);
+    debug.push({ step: 'error', matched: true, detail: { message: error.message } });
+    return respond(null, {
+      content: 'Ocorreu um erro ao processar sua pergunta.',
+      confidence: 0,
+      type: 'fallback'
+    });
+  }
+};
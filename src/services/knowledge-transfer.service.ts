@@ -0,0 +1,190 @@
+import { FilterQuery } from 'mongoose';
+import { Knowledge } from '../models/Knowledge.model';
+import { hashContent } from './fingerprint.service';
+import { newBatchId, recordCreated, recordUpdated, RevisionContext, toSnapshot } from './revision.service';
+
+// Exportação e importação da base de conhecimento de um tenant. Os registros
+// exportados não levam identificadores nem dados derivados, para que possam ser
+// importados em outro tenant ou outra instalação.
+
+export type ImportStrategy = 'skip' | 'overwrite' | 'keep-newest';
+
+export const IMPORT_STRATEGIES: ImportStrategy[] = ['skip', 'overwrite', 'keep-newest'];
+
+export interface ImportOptions {
+  strategy: ImportStrategy;
+  dryRun: boolean;
+  revision: Pick<RevisionContext, 'actor' | 'reason' | 'origin'>;
+}
+
+export interface ImportRecordError {
+  // Linha no NDJSON ou posição no array JSON, começando em 1
+  line: number;
+  error: string;
+}
+
+export interface ImportResult {
+  strategy: ImportStrategy;
+  dryRun: boolean;
+  batchId?: string;
+  total: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  errors: ImportRecordError[];
+}
+
+// Registro ainda não validado, com a posição em que apareceu na entrada
+export interface RawImportRecord {
+  line: number;
+  record?: unknown;
+  error?: string;
+}
+
+// Campos exportados e aceitos na importação
+export const TRANSFER_FIELDS = [
+  'content', 'term', 'pattern', 'intent', 'resultType', 'resultCategory', 'priority',
+  'category', 'language', 'type', 'source', 'path', 'timestamp', 'confidence', 'url',
+  'positiveFeedback', 'negativeFeedback', 'flagged', 'flaggedAt',
+  'page', 'chunkIndex', 'startOffset', 'endOffset'
+];
+
+export const toExportRecord = (doc: any) => {
+  const record: Record<string, unknown> = {};
+  for (const field of TRANSFER_FIELDS) {
+    if (doc[field] !== undefined && doc[field] !== null) {
+      record[field] = doc[field];
+    }
+  }
+  return record;
+};
+
+export const exportCursor = (filter: FilterQuery<any>) => {
+  return Knowledge.find(filter).sort({ _id: 1 }).lean().cursor();
+};
+
+// Aceita NDJSON (texto), um array JSON ou { records: [...] }
+export const parseImportBody = (body: unknown): RawImportRecord[] | null => {
+  if (typeof body === 'string') {
+    return body.split(/\r?\n/)
+      .map((text, index) => ({ text: text.trim(), line: index + 1 }))
+      .filter(({ text }) => text.length > 0)
+      .map(({ text, line }) => {
+        try {
+          return { line, record: JSON.parse(text) };
+        } catch {
+          return { line, error: 'JSON inválido' };
+        }
+      });
+  }
+
+  const records = Array.isArray(body) ? body : (body as any)?.records;
+  if (!Array.isArray(records)) {
+    return null;
+  }
+  return records.map((record, index) => ({ line: index + 1, record }));
+};
+
+// Valida o registro contra o schema do Knowledge; retorna a mensagem de erro ou null
+const validateRecord = (tenant: string, record: unknown): string | null => {
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return 'Registro deve ser um objeto';
+  }
+
+  const unknown = Object.keys(record).filter(field => !TRANSFER_FIELDS.includes(field));
+  if (unknown.length > 0) {
+    return `Campos desconhecidos: ${unknown.join(', ')}`;
+  }
+
+  const error = new Knowledge({ ...record, tenant }).validateSync();
+  if (error) {
+    return Object.values(error.errors).map(item => item.message).join('; ');
+  }
+  return null;
+};
+
+const newerThan = (record: any, existing: { timestamp?: Date }) => {
+  const incoming = record.timestamp ? new Date(record.timestamp).getTime() : 0;
+  const current = existing.timestamp ? new Date(existing.timestamp).getTime() : 0;
+  return incoming > current;
+};
+
+// Importa os registros no tenant. Conflitos são entradas com o mesmo conteúdo
+// normalizado: 'skip' mantém a existente, 'overwrite' a substitui e
+// 'keep-newest' fica com a de timestamp mais recente. No dry run nada é
+// gravado, mas o resultado mostra o que aconteceria.
+export const importKnowledge = async (
+  tenant: string,
+  records: RawImportRecord[],
+  options: ImportOptions
+): Promise<ImportResult> => {
+  const batchId = options.dryRun ? undefined : newBatchId();
+  const revision: RevisionContext = { ...options.revision, batchId };
+  const result: ImportResult = {
+    strategy: options.strategy,
+    dryRun: options.dryRun,
+    batchId,
+    total: records.length,
+    created: 0,
+    updated: 0,
+    skipped: 0,
+    failed: 0,
+    errors: []
+  };
+
+  // No dry run, os registros "criados" ficam aqui para detectar conflitos dentro do próprio arquivo
+  const simulated = new Map<string, { timestamp?: Date }>();
+
+  for (const { line, record, error } of records) {
+    const invalid = error || validateRecord(tenant, record);
+    if (invalid) {
+      result.failed++;
+      result.errors.push({ line, error: invalid });
+      continue;
+    }
+
+    const data = record as Record<string, any>;
+    const contentHash = hashContent(data.content);
+
+    try {
+      const existing = simulated.get(contentHash) || await Knowledge.findOne({ tenant, contentHash });
+
+      if (!existing) {
+        if (options.dryRun) {
+          simulated.set(contentHash, { timestamp: data.timestamp });
+        } else {
+          const created = await Knowledge.create({ ...data, tenant });
+          await recordCreated(tenant, [created], revision);
+        }
+        result.created++;
+        continue;
+      }
+
+      const replace = options.strategy === 'overwrite'
+        || (options.strategy === 'keep-newest' && newerThan(data, existing));
+      if (!replace) {
+        result.skipped++;
+        continue;
+      }
+
+      if (options.dryRun) {
+        simulated.set(contentHash, { timestamp: data.timestamp });
+      } else {
+        const document = existing as any;
+        const before = toSnapshot(document);
+        // Substitui a entrada inteira; sem timestamp no registro, vale o momento da importação
+        TRANSFER_FIELDS.forEach(field => document.set(field, data[field] ?? (field === 'timestamp' ? new Date() : undefined)));
+        await document.save();
+        await recordUpdated(tenant, before, document, revision);
+      }
+      result.updated++;
+    } catch (saveError) {
+      result.failed++;
+      result.errors.push({ line, error: saveError.message });
+    }
+  }
+
+  console.log(`📦 Importação${options.dryRun ? ' (dry run)' : ''}: ${result.created} criados, ${result.updated} atualizados, ${result.skipped} ignorados, ${result.failed} com erro`);
+  return result;
+};
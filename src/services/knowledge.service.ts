@@ -0,0 +1,103 @@
+import { FilterQuery } from 'mongoose';
+import { Knowledge } from '../models/Knowledge.model';
+
+export interface KnowledgeQuery {
+  source?: unknown;
+  type?: unknown;
+  category?: unknown;
+  path?: unknown;
+  language?: unknown;
+  from?: unknown;
+  to?: unknown;
+  q?: unknown;
+  flagged?: unknown;
+}
+
+// Campos que podem ser alterados pela API de administração
+export const EDITABLE_FIELDS = [
+  'content', 'term', 'type', 'category', 'language', 'source', 'path', 'confidence', 'flagged'
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const parseDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  const date = new Date(String(value));
+  return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Monta o filtro do Mongo a partir dos parâmetros de consulta da API, sempre
+// restrito ao tenant. `path` filtra por prefixo; `q` usa o índice de texto do conteúdo.
+export const buildKnowledgeFilter = (tenant: string, query: KnowledgeQuery): FilterQuery<any> => {
+  const filter: FilterQuery<any> = { tenant };
+
+  for (const field of ['source', 'type', 'category', 'language'] as const) {
+    if (query[field]) {
+      filter[field] = String(query[field]);
+    }
+  }
+
+  // Entradas marcadas para revisão por avaliações negativas
+  if (query.flagged !== undefined) {
+    filter.flagged = String(query.flagged) === 'true';
+  }
+
+  if (query.path) {
+    filter.path = { $regex: `^${escapeRegExp(String(query.path))}` };
+  }
+
+  const from = parseDate(query.from);
+  const to = parseDate(query.to);
+  if (from || to) {
+    filter.timestamp = {
+      ...(from && { $gte: from }),
+      ...(to && { $lte: to })
+    };
+  }
+
+  if (query.q) {
+    filter.$text = { $search: String(query.q) };
+  }
+
+  return filter;
+};
+
+export const pickEditableFields = (body: Record<string, unknown>) => {
+  const changes: Record<string, unknown> = {};
+  for (const field of EDITABLE_FIELDS) {
+    if (body[field] !== undefined) {
+      changes[field] = body[field];
+    }
+  }
+  return changes;
+};
+
+// Contagem de documentos por origem, tipo e categoria, e dos marcados para revisão
+export const getKnowledgeStats = async (tenant: string) => {
+  const countBy = (field: string) => [
+    { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+    { $sort: { count: -1 as const } },
+    { $project: { _id: 0, value: '$_id', count: 1 } }
+  ];
+
+  const [stats] = await Knowledge.aggregate([
+    { $match: { tenant } },
+    {
+      $facet: {
+        total: [{ $count: 'count' }],
+        flagged: [{ $match: { flagged: true } }, { $count: 'count' }],
+        bySource: countBy('source'),
+        byType: countBy('type'),
+        byCategory: countBy('category')
+      }
+    }
+  ]);
+
+  return {
+    total: stats.total[0]?.count || 0,
+    flagged: stats.flagged[0]?.count || 0,
+    bySource: stats.bySource,
+    byType: stats.byType,
+    byCategory: stats.byCategory
+  };
+};
@@ -0,0 +1,59 @@
+import { config } from '../config/config';
+
+// Detecção de idioma com o franc. O pacote é distribuído apenas como ESM,
+// então é carregado com import() dinâmico, que o TypeScript não converte em require.
+
+interface FrancModule {
+  franc: (text: string, options?: { minLength?: number; only?: string[] }) => string;
+}
+
+// ISO 639-3 (franc) -> ISO 639-1 (armazenado em Knowledge.language)
+const ISO_639_3_TO_1: Record<string, string> = {
+  por: 'pt',
+  eng: 'en',
+  spa: 'es',
+  fra: 'fr',
+  ita: 'it',
+  deu: 'de'
+};
+
+const MIN_LENGTH = 10;
+const SAMPLE_LENGTH = 2000;
+
+const importModule = new Function('specifier', 'return import(specifier)') as
+  (specifier: string) => Promise<any>;
+
+let francModule: Promise<FrancModule> | null = null;
+
+const loadFranc = () => {
+  if (!francModule) {
+    francModule = importModule('franc');
+  }
+  return francModule;
+};
+
+const toIso6393 = (code: string) => {
+  return Object.keys(ISO_639_3_TO_1).find(key => ISO_639_3_TO_1[key] === code);
+};
+
+// Retorna o código ISO 639-1 do idioma do texto, ou o idioma padrão
+// quando o texto é curto demais ou o idioma não é reconhecido
+export const detectLanguage = async (text: string): Promise<string> => {
+  const sample = (text || '').slice(0, SAMPLE_LENGTH);
+  if (sample.trim().length < MIN_LENGTH) {
+    return config.language.default;
+  }
+
+  try {
+    const { franc } = await loadFranc();
+    const only = config.language.supported
+      .map(toIso6393)
+      .filter((code): code is string => Boolean(code));
+
+    const detected = franc(sample, { minLength: MIN_LENGTH, only });
+    return ISO_639_3_TO_1[detected] || config.language.default;
+  } catch (error) {
+    console.error('⚠️ Erro ao detectar idioma:', error.message);
+    return config.language.default;
+  }
+};
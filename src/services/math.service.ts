@@ -0,0 +1,136 @@
+import { ExpressionError, formatResult, parseNumber } from './expression.service';
+import { extractEquation, solveEquation } from './equation.service';
+import { convertUnits, findUnit, formatQuantity, UnitConversionError } from './unit-conversion.service';
+
+// Perguntas de matemática além das expressões simples: conversão de unidades
+// ("quanto é 5 km em milhas"), porcentagens ("20% de 350") e equações
+// ("resolva 2x + 3 = 7"). As respostas trazem os passos usados.
+
+export type MathKind = 'equation' | 'conversion' | 'percentage';
+
+export interface MathAnswer {
+  kind: MathKind;
+  // Falso quando a pergunta foi reconhecida mas não pôde ser resolvida
+  solved: boolean;
+  content: string;
+  steps: string[];
+}
+
+const NUMBER = '-?\\d+(?:[.,]\\d+)?';
+const AMOUNT = `(${NUMBER}|uma?)`;
+const PERCENT = '(?:%|por\\s*cento)';
+
+// "5 km em milhas", "converta 100 °C para fahrenheit"
+const CONVERSION = new RegExp(`${AMOUNT}\\s*([^\\d?!=]+?)\\s+(?:em|para|pra|to|in)\\s+([^\\d?!=.,]+?)\\s*[?!.]*$`, 'i');
+// "quantos segundos tem uma hora", "quantos ml cabem em 2 litros"
+const QUANTITY_QUESTION = new RegExp(
+  `quant[oa]s?\\s+([^\\d?!=]+?)\\s+(?:tem|têm|há|ha|cabem|existem|são|sao|dá|da|equivalem\\s+a)\\s+(?:em\\s+)?${AMOUNT}\\s*([^\\d?!=]+?)\\s*[?!.]*$`,
+  'i'
+);
+// "20% de 350"
+const PERCENT_OF = new RegExp(`(${NUMBER})\\s*${PERCENT}\\s+(?:de|do|da|dos|das|sobre)\\s+(${NUMBER})`, 'i');
+// "30 é quantos por cento de 120", "quantos % é 30 de 120"
+const PERCENT_RATIO = [
+  new RegExp(`(${NUMBER})\\s+(?:é|e|representa|equivale\\s+a)\\s+quant[oa]s?\\s+${PERCENT}\\s+(?:de|do|da|em)\\s+(${NUMBER})`, 'i'),
+  new RegExp(`quant[oa]s?\\s+${PERCENT}\\s+(?:é|e|representa|são|sao)\\s+(${NUMBER})\\s+(?:de|do|da|em)\\s+(${NUMBER})`, 'i')
+];
+
+const toAmount = (text: string) => (/^uma?$/i.test(text) ? 1 : parseNumber(text));
+
+const withSteps = (headline: string, steps: string[]) => {
+  return [headline, '', 'Passos:', ...steps.map((step, index) => `${index + 1}. ${step}`)].join('\n');
+};
+
+const failure = (kind: MathKind, question: string, error: Error): MathAnswer => ({
+  kind,
+  solved: false,
+  content: `Não consegui resolver "${question}": ${error.message}.`,
+  steps: []
+});
+
+const answerEquation = (message: string): MathAnswer | null => {
+  const found = extractEquation(message);
+  if (!found) return null;
+
+  try {
+    const { variable, solutions, steps } = solveEquation(found.left, found.right, found.variable);
+    const headline = solutions === null
+      ? `Qualquer valor de ${variable} satisfaz ${found.equation}.`
+      : solutions.length === 0
+        ? `A equação ${found.equation} não tem solução real.`
+        : solutions.map(solution => `${variable} = ${formatResult(solution)}`).join(' ou ');
+    return { kind: 'equation', solved: true, content: withSteps(headline, steps), steps };
+  } catch (error) {
+    if (error instanceof ExpressionError) return failure('equation', found.equation, error);
+    throw error;
+  }
+};
+
+const answerConversion = (message: string): MathAnswer | null => {
+  let match = message.match(QUANTITY_QUESTION);
+  const [amount, fromName, toName] = match
+    ? [match[2], match[3], match[1]]
+    : (match = message.match(CONVERSION)) ? [match[1], match[2], match[3]] : [];
+  if (!match) return null;
+
+  // Só responde quando as duas unidades são conhecidas; o resto é texto comum
+  const from = findUnit(fromName);
+  const to = findUnit(toName);
+  if (!from || !to) return null;
+
+  const value = toAmount(amount);
+  const question = `${formatQuantity(value)} ${from.symbol} em ${to.symbol}`;
+  try {
+    const conversion = convertUnits(value, from, to);
+    const headline = `${formatQuantity(value)} ${from.symbol} = ${formatQuantity(conversion.result)} ${to.symbol}`;
+    return { kind: 'conversion', solved: true, content: withSteps(headline, conversion.steps), steps: conversion.steps };
+  } catch (error) {
+    if (error instanceof UnitConversionError) return failure('conversion', question, error);
+    throw error;
+  }
+};
+
+const answerPercentage = (message: string): MathAnswer | null => {
+  const of = message.match(PERCENT_OF);
+  if (of) {
+    const percent = parseNumber(of[1]);
+    const total = parseNumber(of[2]);
+    const rate = percent / 100;
+    const result = rate * total;
+    const steps = [
+      `${formatResult(percent)}% = ${formatResult(percent)} / 100 = ${formatResult(rate)}`,
+      `${formatResult(rate)} × ${formatResult(total)} = ${formatResult(result)}`
+    ];
+    return {
+      kind: 'percentage',
+      solved: true,
+      content: withSteps(`${formatResult(percent)}% de ${formatResult(total)} = ${formatResult(result)}`, steps),
+      steps
+    };
+  }
+
+  const ratio = PERCENT_RATIO.map(pattern => message.match(pattern)).find(Boolean);
+  if (!ratio) return null;
+
+  const part = parseNumber(ratio[1]);
+  const total = parseNumber(ratio[2]);
+  if (total === 0) {
+    return failure('percentage', `${ratio[1]} de ${ratio[2]}`, new ExpressionError('Divisão por zero'));
+  }
+  const quotient = part / total;
+  const steps = [
+    `${formatResult(part)} / ${formatResult(total)} = ${formatResult(quotient)}`,
+    `${formatResult(quotient)} × 100 = ${formatResult(quotient * 100)}%`
+  ];
+  return {
+    kind: 'percentage',
+    solved: true,
+    content: withSteps(`${formatResult(part)} é ${formatResult(quotient * 100)}% de ${formatResult(total)}`, steps),
+    steps
+  };
+};
+
+// Tenta cada tipo de pergunta; null quando a mensagem não é nenhum deles
+export const answerMathQuestion = (message: string): MathAnswer | null => {
+  return answerEquation(message) || answerConversion(message) || answerPercentage(message);
+};
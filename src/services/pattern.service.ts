@@ -0,0 +1,276 @@
+import { Knowledge } from '../models/Knowledge.model';
+
+// Padrões de classificação usados por analyzeContent: documentos Knowledge do
+// tipo 'pattern' com pattern, resultType, resultCategory e priority.
+
+export class PatternError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatternError';
+  }
+}
+
+export interface PatternMatch {
+  id: string;
+  pattern: string;
+  resultType: string;
+  resultCategory: string;
+  priority: number;
+}
+
+const MAX_PATTERN_LENGTH = 500;
+
+interface GroupState {
+  hasQuantifier: boolean;
+  alternatives: string[];
+  alternativeStart: number;
+}
+
+// Tamanho do quantificador que começa em `index` (0 se não houver)
+const quantifierLength = (pattern: string, index: number): number => {
+  const char = pattern[index];
+  if (char === '*' || char === '+' || char === '?') {
+    return pattern[index + 1] === '?' ? 2 : 1;
+  }
+  if (char === '{') {
+    const match = pattern.slice(index).match(/^\{\d+(,\d*)?\}\??/);
+    return match ? match[0].length : 0;
+  }
+  return 0;
+};
+
+// Quantificadores que permitem repetição ilimitada ou múltipla
+const repeats = (quantifier: string): boolean => {
+  if (quantifier.startsWith('*') || quantifier.startsWith('+')) return true;
+  const bounds = quantifier.match(/^\{(\d+)(,(\d*))?\}/);
+  if (!bounds) return false;
+  if (bounds[2] === undefined) return Number(bounds[1]) > 1;
+  return bounds[3] === '' || Number(bounds[3]) > 1;
+};
+
+// Posição logo após a classe de caracteres que começa em `index`
+const classEnd = (pattern: string, index: number): number => {
+  let i = index + 1;
+  if (pattern[i] === '^') i++;
+  if (pattern[i] === ']') i++;
+  while (i < pattern.length && pattern[i] !== ']') {
+    i += pattern[i] === '\\' ? 2 : 1;
+  }
+  return i + 1;
+};
+
+// Tamanho do átomo (caractere, escape, classe ou grupo) que começa em `index`
+const atomLength = (pattern: string, index: number): number => {
+  const char = pattern[index];
+  if (char === '\\') {
+    const escape = pattern.slice(index).match(/^\\(u[0-9a-fA-F]{4}|x[0-9a-fA-F]{2}|c[A-Za-z]|k<[^>]+>|\d+|[\s\S])/);
+    return escape ? escape[0].length : 1;
+  }
+  if (char === '[') return classEnd(pattern, index) - index;
+  if (char === '(') {
+    let i = index + 1;
+    while (i < pattern.length && pattern[i] !== ')') i += atomLength(pattern, i);
+    return i + 1 - index;
+  }
+  return 1;
+};
+
+// Alternativas do nível mais externo de uma sequência
+const splitAlternatives = (sequence: string): string[] => {
+  const alternatives: string[] = [];
+  let start = 0;
+  for (let i = 0; i < sequence.length; i += atomLength(sequence, i)) {
+    if (sequence[i] === '|') {
+      alternatives.push(sequence.slice(start, i));
+      start = i + 1;
+    }
+  }
+  alternatives.push(sequence.slice(start));
+  return alternatives;
+};
+
+const allowsEmpty = (quantifier: string) => /^([*?]|\{0[,}])/.test(quantifier);
+
+const ZERO_WIDTH = /^([\^$]|\\[bB]|\(\?<?[=!])/;
+const BACKREFERENCE = /^\\([1-9]|k<)/;
+
+// Átomos com que a sequência pode começar; null quando ela pode casar vazio
+const firstAtoms = (sequence: string): string[] | null => {
+  const atoms: string[] = [];
+  let i = 0;
+  while (i < sequence.length) {
+    const atom = sequence.slice(i, i + atomLength(sequence, i));
+    i += atom.length;
+    const quantifier = sequence.slice(i, i + quantifierLength(sequence, i));
+    i += quantifier.length;
+
+    if (ZERO_WIDTH.test(atom)) continue;
+
+    let optional = allowsEmpty(quantifier);
+    if (atom.startsWith('(')) {
+      const body = atom.slice(atom.match(/^\((\?(:|<[^>]+>))?/)![0].length, -1);
+      for (const alternative of splitAlternatives(body)) {
+        const first = firstAtoms(alternative);
+        if (first) atoms.push(...first);
+        else optional = true;
+      }
+    } else {
+      // Retrovisores podem repetir qualquer coisa
+      atoms.push(BACKREFERENCE.test(atom) ? '[\\s\\S]' : atom);
+    }
+    if (!optional) return atoms;
+  }
+  return null;
+};
+
+// Caracteres usados para comparar os átomos: ASCII, alguns exemplos fora dele
+// e os caracteres não ASCII que aparecem no próprio padrão
+const probeCharacters = (pattern: string): string[] => {
+  const probes = new Set(['é', 'ç', 'ã', 'ß', '\u00a0', '\u2028', '中']);
+  for (let code = 0; code < 128; code++) probes.add(String.fromCharCode(code));
+  for (const char of pattern) {
+    if (char.charCodeAt(0) >= 128) probes.add(char);
+  }
+  return Array.from(probes);
+};
+
+const atomMatcher = (atom: string): RegExp => {
+  try {
+    return new RegExp(`^(?:${atom})$`, 'i');
+  } catch {
+    return /^[\s\S]$/;
+  }
+};
+
+// Alternativas que podem começar pelo mesmo caractere, ex.: (a|ab)*, (\w|\d)+
+// ou ([a-z]|[a-c])+, ou que podem casar vazio
+const hasOverlappingAlternatives = (alternatives: string[], probes: string[]): boolean => {
+  const matchers = alternatives.map(alternative => firstAtoms(alternative)?.map(atomMatcher) || null);
+  if (matchers.some(matcher => matcher === null)) return true;
+
+  const starts = matchers.map(atoms => new Set(probes.filter(probe => atoms.some(atom => atom.test(probe)))));
+  for (let i = 0; i < starts.length; i++) {
+    for (let j = i + 1; j < starts.length; j++) {
+      if (Array.from(starts[i]).some(probe => starts[j].has(probe))) {
+        return true;
+      }
+    }
+  }
+  return false;
+};
+
+// Rejeita construções conhecidas por causar backtracking catastrófico:
+// quantificadores aninhados, ex.: (a+)+, e alternativas sobrepostas repetidas
+const checkBacktracking = (pattern: string) => {
+  const probes = probeCharacters(pattern);
+  const stack: GroupState[] = [{ hasQuantifier: false, alternatives: [], alternativeStart: 0 }];
+  let i = 0;
+
+  while (i < pattern.length) {
+    const char = pattern[i];
+    const current = stack[stack.length - 1];
+
+    if (char === '\\') {
+      i += 2;
+    } else if (char === '[') {
+      i = classEnd(pattern, i);
+    } else if (char === '(') {
+      const prefix = pattern.slice(i).match(/^\((\?(:|=|!|<=|<!|<[^>]+>))?/);
+      i += prefix ? prefix[0].length : 1;
+      stack.push({ hasQuantifier: false, alternatives: [], alternativeStart: i });
+      continue;
+    } else if (char === '|') {
+      current.alternatives.push(pattern.slice(current.alternativeStart, i));
+      current.alternativeStart = i + 1;
+      i++;
+      continue;
+    } else if (char === ')') {
+      if (stack.length === 1) {
+        throw new PatternError('Parêntese sem abertura correspondente');
+      }
+      const group = stack.pop()!;
+      group.alternatives.push(pattern.slice(group.alternativeStart, i));
+      i++;
+
+      const length = quantifierLength(pattern, i);
+      const quantifier = pattern.slice(i, i + length);
+      const parent = stack[stack.length - 1];
+
+      if (length > 0 && repeats(quantifier)) {
+        if (group.hasQuantifier) {
+          throw new PatternError('Quantificadores aninhados podem causar backtracking catastrófico');
+        }
+        if (group.alternatives.length > 1 && hasOverlappingAlternatives(group.alternatives, probes)) {
+          throw new PatternError('Alternativas sobrepostas repetidas podem causar backtracking catastrófico');
+        }
+      }
+
+      parent.hasQuantifier = parent.hasQuantifier || group.hasQuantifier || length > 0;
+      i += length;
+      continue;
+    } else {
+      i++;
+    }
+
+    const length = quantifierLength(pattern, i);
+    if (length > 0) {
+      current.hasQuantifier = true;
+      i += length;
+    }
+  }
+};
+
+export const validatePattern = (pattern: unknown): string => {
+  if (typeof pattern !== 'string' || !pattern.trim()) {
+    throw new PatternError('O padrão deve ser um texto não vazio');
+  }
+  if (pattern.length > MAX_PATTERN_LENGTH) {
+    throw new PatternError(`O padrão deve ter no máximo ${MAX_PATTERN_LENGTH} caracteres`);
+  }
+
+  try {
+    new RegExp(pattern, 'i');
+  } catch (error) {
+    throw new PatternError(`Expressão regular inválida: ${error.message}`);
+  }
+
+  checkBacktracking(pattern);
+  return pattern;
+};
+
+export const listPatterns = (tenant: string) => {
+  return Knowledge.find({ tenant, type: 'pattern' }).sort({ priority: -1, timestamp: 1 });
+};
+
+// Aplica os padrões por ordem de prioridade e retorna o primeiro que casar,
+// junto com o resultado de cada padrão avaliado até ele.
+export const classifyContent = async (tenant: string, content: string) => {
+  const patterns = await listPatterns(tenant);
+  const evaluated: Array<{ id: string; pattern: string; matched: boolean; error?: string }> = [];
+  let match: PatternMatch | null = null;
+
+  for (const pattern of patterns) {
+    let matched = false;
+    try {
+      matched = new RegExp(pattern.pattern, 'i').test(content);
+    } catch (error) {
+      console.error('⚠️ Padrão inválido ignorado:', pattern.pattern);
+      evaluated.push({ id: pattern.id, pattern: pattern.pattern, matched, error: error.message });
+      continue;
+    }
+
+    evaluated.push({ id: pattern.id, pattern: pattern.pattern, matched });
+    if (matched) {
+      match = {
+        id: pattern.id,
+        pattern: pattern.pattern,
+        resultType: pattern.resultType,
+        resultCategory: pattern.resultCategory,
+        priority: pattern.priority || 0
+      };
+      break;
+    }
+  }
+
+  return { match, evaluated };
+};
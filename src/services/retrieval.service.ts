@@ -0,0 +1,101 @@
+import { Knowledge } from '../models/Knowledge.model';
+import { config } from '../config/config';
+import { searchIndex } from './search-index.service';
+import { translateText } from './translation.service';
+import { getConfidence } from './feedback.service';
+
+export interface RankedKnowledge {
+  id: string;
+  content: string;
+  source: string;
+  type?: string;
+  language?: string;
+  confidence?: number;
+  documentId?: string;
+  page?: number;
+  startOffset?: number;
+  endOffset?: number;
+  score: number;
+}
+
+// Abaixo desta pontuação a consulta também é buscada traduzida nos outros idiomas
+const CROSS_LANGUAGE_SCORE = 0.5;
+
+const toRanked = (doc: any, score: number): RankedKnowledge => ({
+  id: String(doc._id),
+  content: doc.content,
+  source: doc.source,
+  type: doc.type,
+  language: doc.language,
+  confidence: doc.confidence,
+  documentId: doc.documentId ? String(doc.documentId) : undefined,
+  page: doc.page,
+  startOffset: doc.startOffset,
+  endOffset: doc.endOffset,
+  score
+});
+
+// Pondera a relevância pela confiança, que sobe e desce com as avaliações dos usuários
+const weightByConfidence = (score: number, doc: { confidence?: number }) => {
+  const weight = config.feedback.rankingWeight;
+  return score * ((1 - weight) + weight * getConfidence(doc));
+};
+
+const searchSingleLanguage = async (tenant: string, query: string, limit: number): Promise<RankedKnowledge[]> => {
+  const exact = await Knowledge.find({ tenant, term: query, type: { $ne: 'pattern' } })
+    .sort({ confidence: -1, timestamp: -1 })
+    .limit(limit)
+    .lean();
+
+  const hits = await searchIndex(tenant, query, limit);
+  const docs = await Knowledge.find({ tenant, _id: { $in: hits.map(hit => hit.id) } }).lean();
+  const docsById = new Map(docs.map(doc => [String(doc._id), doc]));
+
+  const results = exact.map(doc => toRanked(doc, 1));
+  const seen = new Set(results.map(result => result.id));
+
+  const ranked = hits
+    .filter(hit => docsById.has(hit.id) && !seen.has(hit.id))
+    .map(hit => {
+      const doc = docsById.get(hit.id);
+      return toRanked(doc, weightByConfidence(hit.score, doc));
+    })
+    .sort((a, b) => b.score - a.score);
+
+  return results.concat(ranked).slice(0, limit);
+};
+
+// Busca passagens e conhecimentos ensinados do tenant ordenados por relevância e confiança.
+// Termos ensinados com correspondência exata vêm antes do ranking híbrido local.
+// Informando o idioma da consulta, resultados fracos disparam a busca da consulta
+// traduzida para os demais idiomas suportados.
+export const searchKnowledge = async (
+  tenant: string,
+  query: string,
+  limit = 5,
+  language?: string
+): Promise<RankedKnowledge[]> => {
+  const results = await searchSingleLanguage(tenant, query, limit);
+  if (!language || (results.length > 0 && results[0].score >= CROSS_LANGUAGE_SCORE)) {
+    return results;
+  }
+
+  const byId = new Map(results.map(result => [result.id, result]));
+  for (const target of config.language.supported) {
+    if (target === language) continue;
+
+    const translated = await translateText(query, language, target);
+    if (translated === query) continue;
+
+    for (const result of await searchSingleLanguage(tenant, translated, limit)) {
+      const existing = byId.get(result.id);
+      if (!existing || existing.score < result.score) {
+        byId.set(result.id, result);
+      }
+    }
+  }
+
+  return Array.from(byId.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
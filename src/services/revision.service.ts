@@ -0,0 +1,218 @@
+import { FilterQuery, Types } from 'mongoose';
+import { Knowledge } from '../models/Knowledge.model';
+import { KnowledgeRevision, RevisionAction, RevisionOrigin } from '../models/KnowledgeRevision.model';
+import { SourceDocument } from '../models/SourceDocument.model';
+import { AuthContext } from './auth.service';
+
+// Histórico de alterações dos conhecimentos. Cada criação, edição e exclusão
+// vira uma revisão com autor, motivo, origem e diferença, o que permite
+// consultar quem ensinou o quê e voltar uma entrada ou um lote inteiro a um
+// estado anterior.
+
+export interface RevisionContext {
+  actor: string;
+  origin: RevisionOrigin;
+  reason?: string;
+  batchId?: string;
+}
+
+export interface RevisionQuery {
+  source?: unknown;
+  batchId?: unknown;
+  actor?: unknown;
+  origin?: unknown;
+  action?: unknown;
+}
+
+type Snapshot = Record<string, any>;
+
+// Alterações feitas pelo próprio sistema (cargas iniciais, worker sem autor conhecido)
+export const SYSTEM_ACTOR = 'system';
+
+// Campos que não fazem parte do estado: identificadores e impressões digitais recalculadas ao gravar
+const IGNORED_FIELDS = ['_id', '__v', 'contentHash', 'minhash', 'minhashBands'];
+
+export const actorFromAuth = (auth: AuthContext) => {
+  if (auth.master) return 'master';
+  return auth.keyId ? `key:${auth.keyId}` : 'anonymous';
+};
+
+export const revisionContext = (auth: AuthContext, origin: RevisionOrigin, reason?: unknown): RevisionContext => ({
+  actor: actorFromAuth(auth),
+  origin,
+  ...(typeof reason === 'string' && reason.trim() && { reason: reason.trim() })
+});
+
+export const newBatchId = () => new Types.ObjectId().toString();
+
+export const toSnapshot = (doc: any): Snapshot => {
+  const plain = typeof doc.toObject === 'function' ? doc.toObject({ depopulate: true }) : { ...doc };
+  IGNORED_FIELDS.forEach(field => delete plain[field]);
+  return plain;
+};
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const diffSnapshots = (before: Snapshot, after: Snapshot) => {
+  const diff: Record<string, { from: unknown; to: unknown }> = {};
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  fields.forEach(field => {
+    if (!sameValue(before[field], after[field])) {
+      diff[field] = { from: before[field], to: after[field] };
+    }
+  });
+  return diff;
+};
+
+const buildRevision = (
+  tenant: string,
+  action: RevisionAction,
+  doc: any,
+  snapshot: Snapshot,
+  diff: Record<string, { from: unknown; to: unknown }>,
+  context: RevisionContext
+) => ({
+  tenant,
+  knowledgeId: doc._id,
+  action,
+  actor: context.actor,
+  origin: context.origin,
+  reason: context.reason,
+  batchId: context.batchId,
+  source: snapshot.source,
+  diff,
+  snapshot,
+  timestamp: new Date()
+});
+
+export const recordCreated = async (tenant: string, docs: any[], context: RevisionContext) => {
+  if (docs.length === 0) return;
+  await KnowledgeRevision.insertMany(docs.map(doc => {
+    const snapshot = toSnapshot(doc);
+    return buildRevision(tenant, 'create', doc, snapshot, diffSnapshots({}, snapshot), context);
+  }));
+};
+
+// `before` é o snapshot tirado antes da alteração; nada é gravado se nada mudou
+export const recordUpdated = async (tenant: string, before: Snapshot, doc: any, context: RevisionContext) => {
+  const snapshot = toSnapshot(doc);
+  const diff = diffSnapshots(before, snapshot);
+  if (Object.keys(diff).length === 0) return;
+  await KnowledgeRevision.create(buildRevision(tenant, 'update', doc, snapshot, diff, context));
+};
+
+export const recordDeleted = async (tenant: string, docs: any[], context: RevisionContext) => {
+  if (docs.length === 0) return;
+  await KnowledgeRevision.insertMany(docs.map(doc => {
+    const snapshot = toSnapshot(doc);
+    return buildRevision(tenant, 'delete', doc, snapshot, diffSnapshots(snapshot, {}), context);
+  }));
+};
+
+export const getEntryHistory = (tenant: string, knowledgeId: string) => {
+  return KnowledgeRevision.find({ tenant, knowledgeId }).sort({ timestamp: 1, _id: 1 });
+};
+
+export const buildRevisionFilter = (tenant: string, query: RevisionQuery): FilterQuery<any> => {
+  const filter: FilterQuery<any> = { tenant };
+  for (const field of ['source', 'batchId', 'actor', 'origin', 'action'] as const) {
+    if (query[field]) {
+      filter[field] = String(query[field]);
+    }
+  }
+  return filter;
+};
+
+// Leva a entrada ao estado informado (null = excluída), registrando a alteração
+const applyState = async (tenant: string, knowledgeId: Types.ObjectId, target: Snapshot | null, context: RevisionContext) => {
+  const current = await Knowledge.findOne({ _id: knowledgeId, tenant });
+
+  if (!target) {
+    if (!current) return 'unchanged';
+    await Knowledge.findOneAndDelete({ _id: knowledgeId, tenant });
+    await recordDeleted(tenant, [current], context);
+    return 'deleted';
+  }
+
+  if (!current) {
+    const restored = await Knowledge.create({ ...target, _id: knowledgeId, tenant });
+    await recordCreated(tenant, [restored], context);
+    return 'restored';
+  }
+
+  const before = toSnapshot(current);
+  const fields = new Set([...Object.keys(before), ...Object.keys(target)]);
+  fields.forEach(field => current.set(field, target[field]));
+  current.set('tenant', tenant);
+  await current.save();
+  await recordUpdated(tenant, before, current, context);
+  return 'updated';
+};
+
+// Volta a entrada ao estado em que ficou depois da revisão informada.
+// Retorna null quando a revisão não existe para a entrada.
+export const rollbackEntry = async (tenant: string, knowledgeId: string, revisionId: string, context: RevisionContext) => {
+  const revision = await KnowledgeRevision.findOne({ _id: revisionId, tenant, knowledgeId });
+  if (!revision) {
+    return null;
+  }
+
+  const target = revision.action === 'delete' ? null : revision.snapshot;
+  const result = await applyState(tenant, revision.knowledgeId, target, context);
+  console.log(`⏪ Conhecimento ${knowledgeId} revertido para a revisão ${revisionId}: ${result}`);
+
+  return { result, knowledge: await Knowledge.findOne({ _id: knowledgeId, tenant }) };
+};
+
+// Estado da entrada imediatamente antes da revisão
+const stateBefore = (revision: any): Snapshot | null => {
+  if (revision.action === 'create') return null;
+  if (revision.action === 'delete') return revision.snapshot;
+
+  const before: Snapshot = { ...revision.snapshot };
+  Object.entries(revision.diff || {}).forEach(([field, change]: [string, any]) => {
+    if (change.from === undefined) {
+      delete before[field];
+    } else {
+      before[field] = change.from;
+    }
+  });
+  return before;
+};
+
+// Desfaz todas as alterações de um lote (ex.: um documento ingerido ou uma busca),
+// devolvendo cada entrada ao estado anterior à primeira alteração do lote.
+// Retorna null quando o lote não existe.
+export const rollbackBatch = async (tenant: string, batchId: string, context: RevisionContext) => {
+  const revisions = await KnowledgeRevision.find({ tenant, batchId }).sort({ timestamp: 1, _id: 1 });
+  if (revisions.length === 0) {
+    return null;
+  }
+
+  const firstByEntry = new Map<string, any>();
+  revisions.forEach(revision => {
+    const id = String(revision.knowledgeId);
+    if (!firstByEntry.has(id)) firstByEntry.set(id, revision);
+  });
+
+  const rollbackContext = { ...context, batchId: newBatchId() };
+  const summary = { batchId: rollbackContext.batchId, deleted: 0, restored: 0, updated: 0, unchanged: 0 };
+
+  for (const revision of Array.from(firstByEntry.values())) {
+    const result = await applyState(tenant, revision.knowledgeId, stateBefore(revision), rollbackContext);
+    summary[result]++;
+  }
+
+  // Documentos de origem que ficaram sem nenhuma passagem deixam de existir
+  const documentIds = Array.from(new Set(
+    revisions.map(revision => revision.snapshot?.documentId).filter(Boolean).map(String)
+  ));
+  for (const documentId of documentIds) {
+    if (!await Knowledge.exists({ tenant, documentId })) {
+      await SourceDocument.deleteOne({ _id: documentId, tenant });
+    }
+  }
+
+  console.log(`⏪ Lote ${batchId} revertido:`, summary);
+  return summary;
+};
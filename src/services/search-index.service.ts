@@ -0,0 +1,240 @@
+import { Knowledge, knowledgeEvents } from '../models/Knowledge.model';
+import { config } from '../config/config';
+import { tokenize } from './tokenizer.service';
+
+// Índice de busca local, sem rede: BM25 sobre os tokens do conteúdo combinado
+// com embeddings locais (feature hashing) comparados por similaridade de cosseno.
+
+interface TokenizedContent {
+  term: string;
+  tokens: string[];
+  embedding?: number[];
+}
+
+interface IndexedEntry extends TokenizedContent {
+  id: string;
+  termFrequencies: Map<string, number>;
+  embedding: number[];
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  bm25: number;
+  cosine: number;
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Um índice por tenant, para que termos e frequências de uma base não
+// influenciem (nem vazem para) a busca de outra
+interface TenantIndex {
+  entries: Map<string, IndexedEntry>;
+  documentFrequencies: Map<string, number>;
+  totalLength: number;
+}
+
+const indexes = new Map<string, TenantIndex>();
+const entryTenants = new Map<string, string>();
+let loading: Promise<void> | null = null;
+
+const getTenantIndex = (tenant: string): TenantIndex => {
+  let index = indexes.get(tenant);
+  if (!index) {
+    index = { entries: new Map(), documentFrequencies: new Map(), totalLength: 0 };
+    indexes.set(tenant, index);
+  }
+  return index;
+};
+
+// FNV-1a de 32 bits
+const hash = (text: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// Embedding por feature hashing de palavras e trigramas de caracteres.
+// Os trigramas aproximam variações de grafia e flexões ("capital" / "capitais").
+export const embed = (tokens: string[]): number[] => {
+  const dimensions = config.retrieval.embeddingDimensions;
+  const vector = new Array<number>(dimensions).fill(0);
+
+  const addFeature = (feature: string, weight: number) => {
+    const h = hash(feature);
+    const sign = h & 0x80000000 ? -1 : 1;
+    vector[h % dimensions] += sign * weight;
+  };
+
+  for (const token of tokens) {
+    addFeature(`w:${token}`, 1);
+    const padded = `^${token}$`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(`t:${padded.slice(i, i + 3)}`, 0.5);
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+};
+
+const cosine = (a: number[], b: number[]): number => {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+  }
+  return dot;
+};
+
+const removeEntry = (id: string) => {
+  const tenant = entryTenants.get(id);
+  const index = tenant !== undefined ? indexes.get(tenant) : undefined;
+  const entry = index?.entries.get(id);
+  entryTenants.delete(id);
+  if (!entry) return;
+
+  entry.termFrequencies.forEach((_, token) => {
+    const frequency = (index.documentFrequencies.get(token) || 1) - 1;
+    if (frequency > 0) {
+      index.documentFrequencies.set(token, frequency);
+    } else {
+      index.documentFrequencies.delete(token);
+    }
+  });
+  index.totalLength -= entry.tokens.length;
+  index.entries.delete(id);
+};
+
+const addEntry = (doc: any) => {
+  const id = String(doc._id);
+  removeEntry(id);
+
+  // Padrões de classificação não são conhecimento consultável
+  if (!doc.content || doc.type === 'pattern') return;
+
+  const index = getTenantIndex(doc.tenant);
+  const tokens = tokenize(doc.content);
+  const termFrequencies = new Map<string, number>();
+  for (const token of tokens) {
+    termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1);
+  }
+  termFrequencies.forEach((_, token) => {
+    index.documentFrequencies.set(token, (index.documentFrequencies.get(token) || 0) + 1);
+  });
+
+  index.entries.set(id, {
+    id,
+    term: doc.term || '',
+    tokens,
+    termFrequencies,
+    embedding: embed(tokens)
+  });
+  index.totalLength += tokens.length;
+  entryTenants.set(id, doc.tenant);
+};
+
+const clear = () => {
+  indexes.clear();
+  entryTenants.clear();
+};
+
+const load = async () => {
+  console.log('🧮 Construindo índice de busca local...');
+  clear();
+
+  const cursor = Knowledge.find({ type: { $ne: 'pattern' } })
+    .select('content term type tenant')
+    .lean()
+    .cursor();
+
+  for await (const doc of cursor) {
+    addEntry(doc);
+  }
+
+  console.log(`✅ Índice de busca local pronto: ${entryTenants.size} entradas em ${indexes.size} tenants`);
+};
+
+const ensureLoaded = () => {
+  if (!loading) {
+    loading = load().catch(error => {
+      loading = null;
+      throw error;
+    });
+  }
+  return loading;
+};
+
+// Mantém o índice em dia com cada alteração em Knowledge
+knowledgeEvents.on('saved', doc => addEntry(doc));
+knowledgeEvents.on('removed', doc => removeEntry(String(doc._id)));
+knowledgeEvents.on('changed', async id => {
+  try {
+    const doc = await Knowledge.findById(id).select('content term type tenant').lean();
+    if (doc) {
+      addEntry(doc);
+    } else {
+      removeEntry(String(id));
+    }
+  } catch (error) {
+    console.error('❌ Erro ao atualizar índice de busca:', error);
+  }
+});
+knowledgeEvents.on('invalidated', () => {
+  loading = null;
+});
+
+const bm25 = (index: TenantIndex, entry: IndexedEntry, queryTokens: string[]): number => {
+  const count = index.entries.size;
+  const averageLength = count > 0 ? index.totalLength / count : 0;
+  let score = 0;
+
+  for (const token of queryTokens) {
+    const frequency = entry.termFrequencies.get(token);
+    if (!frequency) continue;
+
+    const documentFrequency = index.documentFrequencies.get(token) || 0;
+    const idf = Math.log(1 + (count - documentFrequency + 0.5) / (documentFrequency + 0.5));
+    const normalization = 1 - BM25_B + BM25_B * (entry.tokens.length / (averageLength || 1));
+    score += idf * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * normalization);
+  }
+
+  return score;
+};
+
+// Busca híbrida: BM25 normalizado pelo maior escore + similaridade de cosseno
+export const searchIndex = async (tenant: string, query: string, limit = 5): Promise<SearchHit[]> => {
+  await ensureLoaded();
+
+  const index = indexes.get(tenant);
+  const queryTokens = Array.from(new Set(tokenize(query)));
+  if (!index || queryTokens.length === 0) {
+    return [];
+  }
+  const queryEmbedding = embed(queryTokens);
+
+  const candidates: SearchHit[] = [];
+  index.entries.forEach(entry => {
+    candidates.push({
+      id: entry.id,
+      score: 0,
+      bm25: bm25(index, entry, queryTokens),
+      cosine: Math.max(0, cosine(entry.embedding, queryEmbedding))
+    });
+  });
+
+  const maxBm25 = candidates.reduce((max, hit) => Math.max(max, hit.bm25), 0);
+  const weight = config.retrieval.bm25Weight;
+  for (const hit of candidates) {
+    const normalizedBm25 = maxBm25 > 0 ? hit.bm25 / maxBm25 : 0;
+    hit.score = weight * normalizedBm25 + (1 - weight) * hit.cosine;
+  }
+
+  return candidates
+    .filter(hit => hit.score >= config.retrieval.minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+};
@@ -0,0 +1,104 @@
+import { Knowledge } from '../models/Knowledge.model';
+import { config } from '../config/config';
+import { getSearchProvider, SearchResult } from './search-provider.service';
+import { partitionDuplicates } from './dedup.service';
+import { newBatchId, recordCreated, RevisionContext } from './revision.service';
+
+// Aprendizado a partir de buscas na web: os trechos dos resultados viram
+// conhecimento do tenant, com confiança reduzida até serem avaliados.
+
+export interface SearchLearningResult {
+  provider: string;
+  query: string;
+  results: number;
+  learned: Array<{ id: string; content: string; url: string }>;
+  // Lote do histórico com as entradas criadas nesta busca
+  batchId: string;
+}
+
+const MAX_SNIPPET_LENGTH = 500;
+
+// Parâmetros usados pelos buscadores mais comuns para a consulta
+const QUERY_PARAMS = ['q', 'query', 'p', 'text'];
+
+// Extrai a consulta de "@search <url de busca | texto>" ou do formato antigo
+// "@https://www.google.com/search?q=..."; null quando não é um comando de busca
+export const parseSearchCommand = (message: string): string | null => {
+  const trimmed = message.trim();
+  const command = trimmed.match(/^@search\s+(.+)$/i);
+  const target = command ? command[1].trim() : trimmed.match(/^@(https?:\/\/\S+)$/i)?.[1];
+  if (!target) return null;
+
+  if (/^https?:\/\//i.test(target)) {
+    try {
+      const url = new URL(target);
+      const param = QUERY_PARAMS.find(name => url.searchParams.get(name));
+      return param ? url.searchParams.get(param)!.trim() : null;
+    } catch {
+      return null;
+    }
+  }
+
+  return target;
+};
+
+const isUsefulSnippet = (result: SearchResult) => {
+  const text = result.snippet?.trim();
+  return Boolean(text) && !text.includes('http') && text.length < MAX_SNIPPET_LENGTH;
+};
+
+// Busca a consulta no provedor configurado sem salvar nada: os trechos úteis
+// dos resultados. Retorna null quando não há provedor de busca.
+export const searchWeb = async (query: string) => {
+  const provider = getSearchProvider();
+  if (!provider) {
+    return null;
+  }
+
+  console.log(`🔍 Buscando em ${provider.name}:`, query);
+  const results = await provider.search(query, config.search.maxResults);
+  const snippets = results.filter(isUsefulSnippet).map(result => ({ ...result, content: result.snippet.trim() }));
+  return { provider: provider.name, results: results.length, snippets };
+};
+
+// Busca a consulta no provedor configurado e salva os trechos ainda desconhecidos.
+// Retorna null quando não há provedor de busca.
+export const learnFromSearch = async (
+  tenant: string,
+  query: string,
+  actor: string
+): Promise<SearchLearningResult | null> => {
+  const search = await searchWeb(query);
+  if (!search) {
+    return null;
+  }
+
+  const { provider, results, snippets } = search;
+  const learned: SearchLearningResult['learned'] = [];
+  const created = [];
+  const { unique } = await partitionDuplicates(tenant, snippets);
+
+  for (const result of unique) {
+    const content = result.content;
+    const knowledge = await Knowledge.create({
+      tenant,
+      content,
+      term: query.toLowerCase(),
+      type: 'general',
+      category: 'web_search',
+      source: `search:${provider}`,
+      path: `search/${provider}`,
+      url: result.url,
+      confidence: config.search.learnedConfidence,
+      timestamp: new Date()
+    });
+    learned.push({ id: knowledge.id, content, url: result.url });
+    created.push(knowledge);
+  }
+
+  const batchId = newBatchId();
+  await recordCreated(tenant, created, { actor, origin: 'search', reason: `busca: ${query}`, batchId });
+
+  console.log(`📝 ${learned.length} de ${results} resultados aprendidos`);
+  return { provider, query, results, learned, batchId };
+};
@@ -0,0 +1,138 @@
+import { config } from '../config/config';
+import { fetchUrl } from './fetch.service';
+
+// Provedores de busca na web intercambiáveis. Bing usa a API oficial, SearxNG
+// uma instância própria e o mock responde localmente (testes, ambientes sem rede).
+
+export interface SearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+}
+
+export interface SearchProvider {
+  readonly name: string;
+  search(query: string, limit: number): Promise<SearchResult[]>;
+}
+
+// Interface para a resposta do Bing
+interface BingResponse {
+  webPages?: {
+    value: Array<{
+      name: string;
+      url: string;
+      snippet: string;
+    }>;
+  };
+}
+
+interface SearxngResponse {
+  results?: Array<{
+    title: string;
+    url: string;
+    content?: string;
+  }>;
+}
+
+// Os endereços dos provedores vêm da configuração (a instância SearxNG pode
+// estar na rede interna), por isso as chamadas são confiáveis
+const fetchJson = async <T>(url: URL, headers: Record<string, string> = {}): Promise<T> => {
+  const response = await fetchUrl(url.href, {
+    trusted: true,
+    timeout: config.search.timeout,
+    headers: { Accept: 'application/json', ...headers }
+  });
+  return JSON.parse(response.data.toString('utf-8'));
+};
+
+export class BingSearchProvider implements SearchProvider {
+  readonly name = 'bing';
+
+  constructor(private readonly apiKey = config.search.bingApiKey) {}
+
+  async search(query: string, limit: number): Promise<SearchResult[]> {
+    if (!this.apiKey) {
+      throw new Error('BING_API_KEY não configurada no .env');
+    }
+
+    const url = new URL('https://api.bing.microsoft.com/v7.0/search');
+    url.search = new URLSearchParams({
+      q: query,
+      mkt: config.search.market,
+      responseFilter: 'Webpages',
+      count: String(limit)
+    }).toString();
+
+    const data = await fetchJson<BingResponse>(url, {
+      'Ocp-Apim-Subscription-Key': this.apiKey,
+      'Accept-Language': config.search.market
+    });
+
+    return (data.webPages?.value || []).map(result => ({
+      title: result.name,
+      url: result.url,
+      snippet: result.snippet
+    }));
+  }
+}
+
+export class SearxngSearchProvider implements SearchProvider {
+  readonly name = 'searxng';
+
+  constructor(private readonly baseUrl = config.search.searxngUrl) {}
+
+  async search(query: string, limit: number): Promise<SearchResult[]> {
+    const url = new URL(`${this.baseUrl.replace(/\/+$/, '')}/search`);
+    url.search = new URLSearchParams({
+      q: query,
+      format: 'json',
+      language: config.search.market
+    }).toString();
+
+    const data = await fetchJson<SearxngResponse>(url);
+
+    return (data.results || []).slice(0, limit).map(result => ({
+      title: result.title,
+      url: result.url,
+      snippet: result.content || ''
+    }));
+  }
+}
+
+// Devolve resultados fixos por consulta, ou um resultado gerado a partir dela
+export class MockSearchProvider implements SearchProvider {
+  readonly name = 'mock';
+
+  constructor(private readonly fixtures: Record<string, SearchResult[]> = {}) {}
+
+  async search(query: string, limit: number): Promise<SearchResult[]> {
+    const results = this.fixtures[query] || [{
+      title: query,
+      url: `https://example.com/search?q=${encodeURIComponent(query)}`,
+      snippet: `Resultado de teste para ${query}.`
+    }];
+    return results.slice(0, limit);
+  }
+}
+
+const createProvider = (name: string): SearchProvider | null => {
+  switch (name) {
+    case 'bing':
+      return new BingSearchProvider();
+    case 'searxng':
+      return new SearxngSearchProvider();
+    case 'mock':
+      return new MockSearchProvider();
+    default:
+      return null;
+  }
+};
+
+let provider: SearchProvider | null = createProvider(config.search.provider);
+
+export const setSearchProvider = (next: SearchProvider | null) => {
+  provider = next;
+};
+
+// null quando nenhum provedor está configurado
+export const getSearchProvider = () => provider;
@@ -0,0 +1,82 @@
+import { Response } from 'express';
+import { config } from '../config/config';
+
+// Envio de Server-Sent Events com heartbeats periódicos e detecção de
+// desconexão do cliente.
+
+export interface EventStream {
+  readonly closed: boolean;
+  send(event: string, data: unknown): Promise<void>;
+  end(): void;
+}
+
+export const openEventStream = (res: Response): EventStream => {
+  let closed = false;
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Evita que proxies (ex.: nginx) acumulem a resposta antes de repassar
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  // Comentários SSE são ignorados pelo cliente, mas mantêm a conexão ativa
+  const heartbeat = setInterval(() => {
+    if (!closed) res.write(': heartbeat\n\n');
+  }, config.stream.heartbeatInterval);
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeat);
+  };
+
+  res.on('close', close);
+
+  return {
+    get closed() {
+      return closed;
+    },
+
+    async send(event: string, data: unknown) {
+      if (closed) return;
+      const payload = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+      // Respeita o backpressure do socket
+      if (!res.write(payload)) {
+        await new Promise<void>(resolve => {
+          const done = () => {
+            res.off('drain', done);
+            res.off('close', done);
+            resolve();
+          };
+          res.on('drain', done);
+          res.on('close', done);
+        });
+      }
+    },
+
+    end() {
+      if (closed) return;
+      close();
+      res.end();
+    }
+  };
+};
+
+// Divide o texto em pedaços de até `size` caracteres sem quebrar palavras
+export const splitIntoChunks = (text: string, size: number): string[] => {
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const piece of text.match(/\S+\s*/g) || []) {
+    if (current && current.length + piece.length > size) {
+      chunks.push(current);
+      current = '';
+    }
+    current += piece;
+  }
+  if (current) chunks.push(current);
+
+  return chunks;
+};
@@ -0,0 +1,26 @@
+// Tokenização compartilhada pela busca local: minúsculas, sem acentos e sem stopwords
+
+const STOPWORDS = new Set([
+  'a', 'o', 'as', 'os', 'um', 'uma', 'uns', 'umas', 'de', 'do', 'da', 'dos', 'das',
+  'em', 'no', 'na', 'nos', 'nas', 'por', 'pelo', 'pela', 'pelos', 'pelas', 'para',
+  'pra', 'com', 'sem', 'sob', 'sobre', 'ao', 'aos', 'e', 'ou', 'mas', 'que', 'se',
+  'ja', 'nao', 'sim', 'me', 'te', 'lhe', 'seu', 'sua', 'seus', 'suas', 'meu', 'minha',
+  'eu', 'tu', 'voce', 'ele', 'ela', 'eles', 'elas', 'isso', 'isto', 'aquilo',
+  'este', 'esta', 'esse', 'essa', 'qual', 'quais', 'quem', 'como', 'onde', 'quando',
+  'quanto', 'quanta', 'foi', 'ser', 'sao', 'era', 'tem', 'ha', 'mais', 'menos',
+  'muito', 'pouco', 'the', 'of', 'and', 'to', 'in', 'is', 'it', 'for', 'on', 'what'
+]);
+
+export const normalizeText = (text: string): string => {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+};
+
+export const tokenize = (text: string): string[] => {
+  return normalizeText(text)
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 || /\d/.test(token))
+    .filter(token => !STOPWORDS.has(token));
+};
@@ -0,0 +1,114 @@
+import { translate } from '@vitalets/google-translate-api';
+import { config } from '../config/config';
+
+// Camada de tradução com provedores intercambiáveis. Em produção usa o Google
+// Translate; o dicionário e a identidade funcionam offline (testes, ambientes sem rede).
+
+export interface TranslationProvider {
+  readonly name: string;
+  translate(text: string, from: string, to: string): Promise<string>;
+}
+
+export class GoogleTranslationProvider implements TranslationProvider {
+  readonly name = 'google';
+
+  async translate(text: string, from: string, to: string): Promise<string> {
+    const result = await translate(text, { from, to });
+    return result.text;
+  }
+}
+
+// Não traduz: devolve o texto original
+export class IdentityTranslationProvider implements TranslationProvider {
+  readonly name = 'identity';
+
+  async translate(text: string): Promise<string> {
+    return text;
+  }
+}
+
+// Cada entrada lista a mesma palavra em vários idiomas
+export type DictionaryEntry = Record<string, string>;
+
+const DEFAULT_DICTIONARY: DictionaryEntry[] = [
+  { pt: 'qual', en: 'what', es: 'cuál' },
+  { pt: 'quem', en: 'who', es: 'quién' },
+  { pt: 'onde', en: 'where', es: 'dónde' },
+  { pt: 'quando', en: 'when', es: 'cuándo' },
+  { pt: 'é', en: 'is', es: 'es' },
+  { pt: 'capital', en: 'capital', es: 'capital' },
+  { pt: 'país', en: 'country', es: 'país' },
+  { pt: 'cidade', en: 'city', es: 'ciudad' },
+  { pt: 'presidente', en: 'president', es: 'presidente' },
+  { pt: 'governo', en: 'government', es: 'gobierno' },
+  { pt: 'história', en: 'history', es: 'historia' },
+  { pt: 'população', en: 'population', es: 'población' },
+  { pt: 'idioma', en: 'language', es: 'idioma' },
+  { pt: 'Brasil', en: 'Brazil', es: 'Brasil' },
+  { pt: 'Estados Unidos', en: 'United States', es: 'Estados Unidos' },
+  { pt: 'Alemanha', en: 'Germany', es: 'Alemania' },
+  { pt: 'Espanha', en: 'Spain', es: 'España' },
+  { pt: 'França', en: 'France', es: 'Francia' },
+  { pt: 'Inglaterra', en: 'England', es: 'Inglaterra' }
+];
+
+// Tradução palavra a palavra com um dicionário local; palavras
+// desconhecidas são mantidas
+export class DictionaryTranslationProvider implements TranslationProvider {
+  readonly name = 'dictionary';
+
+  constructor(private readonly entries: DictionaryEntry[] = DEFAULT_DICTIONARY) {}
+
+  async translate(text: string, from: string, to: string): Promise<string> {
+    // Expressões com mais palavras primeiro ("Estados Unidos" antes de "Estados")
+    const pairs = this.entries
+      .filter(entry => entry[from] && entry[to])
+      .map(entry => [entry[from], entry[to]])
+      .sort((a, b) => b[0].length - a[0].length);
+
+    let translated = text;
+    for (const [source, target] of pairs) {
+      const escaped = source.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      const pattern = new RegExp(`(^|[^\\p{L}])${escaped}(?=$|[^\\p{L}])`, 'giu');
+      translated = translated.replace(pattern, (match, prefix: string) => {
+        const word = match.slice(prefix.length);
+        const capitalized = word[0] !== word[0].toLowerCase();
+        return prefix + (capitalized ? target[0].toUpperCase() + target.slice(1) : target);
+      });
+    }
+    return translated;
+  }
+}
+
+const createProvider = (name: string): TranslationProvider => {
+  switch (name) {
+    case 'dictionary':
+      return new DictionaryTranslationProvider();
+    case 'identity':
+      return new IdentityTranslationProvider();
+    default:
+      return new GoogleTranslationProvider();
+  }
+};
+
+let provider: TranslationProvider = createProvider(config.translation.provider);
+
+export const setTranslationProvider = (next: TranslationProvider) => {
+  provider = next;
+};
+
+export const getTranslationProvider = () => provider;
+
+// Traduz o texto; em caso de falha do provedor devolve o texto original
+export const translateText = async (text: string, from: string, to: string): Promise<string> => {
+  if (!text || from === to) {
+    return text;
+  }
+
+  try {
+    return await provider.translate(text, from, to);
+  } catch (error) {
+    console.error(`⚠️ Erro ao traduzir com ${provider.name}:`, error.message);
+    return text;
+  }
+};
@@ -0,0 +1,167 @@
+// Registro de unidades de medida e conversão entre unidades da mesma grandeza.
+// Cada unidade é descrita pelo fator em relação à unidade base da grandeza;
+// temperaturas, que têm deslocamento, usam funções de ida e volta.
+
+export type Dimension = 'comprimento' | 'massa' | 'volume' | 'temperatura' | 'tempo' | 'dados';
+
+export interface Unit {
+  symbol: string;
+  name: string;
+  dimension: Dimension;
+  // Quantas unidades base cabem em uma desta unidade
+  factor?: number;
+  toBase?: (value: number) => number;
+  fromBase?: (value: number) => number;
+  // Fórmula exibida nos passos da conversão para a unidade base
+  toBaseFormula?: string;
+  aliases: string[];
+}
+
+export interface Conversion {
+  value: number;
+  from: Unit;
+  to: Unit;
+  result: number;
+  steps: string[];
+}
+
+export class UnitConversionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnitConversionError';
+  }
+}
+
+const BASE_UNITS: Record<Dimension, string> = {
+  comprimento: 'm',
+  massa: 'kg',
+  volume: 'L',
+  temperatura: 'K',
+  tempo: 's',
+  dados: 'B'
+};
+
+export const UNITS: Unit[] = [
+  // Comprimento (base: metro)
+  { symbol: 'mm', name: 'milímetros', dimension: 'comprimento', factor: 0.001, aliases: ['milimetro', 'milimetros'] },
+  { symbol: 'cm', name: 'centímetros', dimension: 'comprimento', factor: 0.01, aliases: ['centimetro', 'centimetros'] },
+  { symbol: 'm', name: 'metros', dimension: 'comprimento', factor: 1, aliases: ['metro', 'metros'] },
+  { symbol: 'km', name: 'quilômetros', dimension: 'comprimento', factor: 1000, aliases: ['quilometro', 'quilometros', 'kilometro', 'kilometros'] },
+  { symbol: 'in', name: 'polegadas', dimension: 'comprimento', factor: 0.0254, aliases: ['pol', 'polegada', 'polegadas'] },
+  { symbol: 'ft', name: 'pés', dimension: 'comprimento', factor: 0.3048, aliases: ['pe', 'pes'] },
+  { symbol: 'yd', name: 'jardas', dimension: 'comprimento', factor: 0.9144, aliases: ['jarda', 'jardas'] },
+  { symbol: 'mi', name: 'milhas', dimension: 'comprimento', factor: 1609.344, aliases: ['milha', 'milhas'] },
+  { symbol: 'nmi', name: 'milhas náuticas', dimension: 'comprimento', factor: 1852, aliases: ['milha nautica', 'milhas nauticas'] },
+
+  // Massa (base: quilograma)
+  { symbol: 'mg', name: 'miligramas', dimension: 'massa', factor: 1e-6, aliases: ['miligrama', 'miligramas'] },
+  { symbol: 'g', name: 'gramas', dimension: 'massa', factor: 0.001, aliases: ['grama', 'gramas'] },
+  { symbol: 'kg', name: 'quilogramas', dimension: 'massa', factor: 1, aliases: ['quilo', 'quilos', 'kilo', 'kilos', 'quilograma', 'quilogramas'] },
+  { symbol: 't', name: 'toneladas', dimension: 'massa', factor: 1000, aliases: ['ton', 'tonelada', 'toneladas'] },
+  { symbol: 'oz', name: 'onças', dimension: 'massa', factor: 0.028349523125, aliases: ['onca', 'oncas'] },
+  { symbol: 'lb', name: 'libras', dimension: 'massa', factor: 0.45359237, aliases: ['lbs', 'libra', 'libras'] },
+
+  // Volume (base: litro)
+  { symbol: 'mL', name: 'mililitros', dimension: 'volume', factor: 0.001, aliases: ['ml', 'cm3', 'cm³', 'mililitro', 'mililitros'] },
+  { symbol: 'L', name: 'litros', dimension: 'volume', factor: 1, aliases: ['l', 'litro', 'litros', 'dm3', 'dm³'] },
+  { symbol: 'm³', name: 'metros cúbicos', dimension: 'volume', factor: 1000, aliases: ['m3', 'metro cubico', 'metros cubicos'] },
+  { symbol: 'xíc.', name: 'xícaras', dimension: 'volume', factor: 0.24, aliases: ['xicara', 'xicaras'] },
+  { symbol: 'gal', name: 'galões', dimension: 'volume', factor: 3.785411784, aliases: ['galao', 'galoes'] },
+
+  // Temperatura (base: kelvin)
+  {
+    symbol: '°C', name: 'graus Celsius', dimension: 'temperatura',
+    toBase: value => value + 273.15, fromBase: value => value - 273.15, toBaseFormula: 'K = °C + 273,15',
+    aliases: ['c', 'ºc', 'celsius', 'centigrados']
+  },
+  {
+    symbol: '°F', name: 'graus Fahrenheit', dimension: 'temperatura',
+    toBase: value => (value - 32) * 5 / 9 + 273.15, fromBase: value => (value - 273.15) * 9 / 5 + 32,
+    toBaseFormula: 'K = (°F − 32) × 5/9 + 273,15',
+    aliases: ['f', 'ºf', 'fahrenheit']
+  },
+  { symbol: 'K', name: 'kelvin', dimension: 'temperatura', factor: 1, aliases: ['k', 'kelvin', 'kelvins'] },
+
+  // Tempo (base: segundo)
+  { symbol: 'ms', name: 'milissegundos', dimension: 'tempo', factor: 0.001, aliases: ['milissegundo', 'milissegundos'] },
+  { symbol: 's', name: 'segundos', dimension: 'tempo', factor: 1, aliases: ['seg', 'segundo', 'segundos'] },
+  { symbol: 'min', name: 'minutos', dimension: 'tempo', factor: 60, aliases: ['minuto', 'minutos'] },
+  { symbol: 'h', name: 'horas', dimension: 'tempo', factor: 3600, aliases: ['hr', 'hora', 'horas'] },
+  { symbol: 'd', name: 'dias', dimension: 'tempo', factor: 86400, aliases: ['dia', 'dias'] },
+  { symbol: 'sem', name: 'semanas', dimension: 'tempo', factor: 604800, aliases: ['semana', 'semanas'] },
+  // Mês e ano médios do calendário gregoriano
+  { symbol: 'mês', name: 'meses', dimension: 'tempo', factor: 2629746, aliases: ['mes', 'meses'] },
+  { symbol: 'ano', name: 'anos', dimension: 'tempo', factor: 31556952, aliases: ['ano', 'anos'] },
+
+  // Tamanho de dados (base: byte); prefixos decimais (KB) e binários (KiB)
+  { symbol: 'bit', name: 'bits', dimension: 'dados', factor: 0.125, aliases: ['bit', 'bits'] },
+  { symbol: 'B', name: 'bytes', dimension: 'dados', factor: 1, aliases: ['b', 'byte', 'bytes'] },
+  { symbol: 'KB', name: 'kilobytes', dimension: 'dados', factor: 1e3, aliases: ['kb', 'kbyte', 'kilobyte', 'kilobytes', 'quilobyte', 'quilobytes'] },
+  { symbol: 'MB', name: 'megabytes', dimension: 'dados', factor: 1e6, aliases: ['mb', 'mega', 'megas', 'megabyte', 'megabytes'] },
+  { symbol: 'GB', name: 'gigabytes', dimension: 'dados', factor: 1e9, aliases: ['gb', 'giga', 'gigas', 'gigabyte', 'gigabytes'] },
+  { symbol: 'TB', name: 'terabytes', dimension: 'dados', factor: 1e12, aliases: ['tb', 'tera', 'teras', 'terabyte', 'terabytes'] },
+  { symbol: 'KiB', name: 'kibibytes', dimension: 'dados', factor: 1024, aliases: ['kib', 'kibibyte', 'kibibytes'] },
+  { symbol: 'MiB', name: 'mebibytes', dimension: 'dados', factor: 1024 ** 2, aliases: ['mib', 'mebibyte', 'mebibytes'] },
+  { symbol: 'GiB', name: 'gibibytes', dimension: 'dados', factor: 1024 ** 3, aliases: ['gib', 'gibibyte', 'gibibytes'] },
+  { symbol: 'TiB', name: 'tebibytes', dimension: 'dados', factor: 1024 ** 4, aliases: ['tib', 'tebibyte', 'tebibytes'] }
+];
+
+// Minúsculas, sem acentos e sem "graus", para casar "Graus Celsius", "°C" e "celsius"
+export const normalizeUnitName = (text: string) => {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/^graus?\s+/, '')
+    .replace(/^°\s*/, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+const unitsByAlias = new Map<string, Unit>();
+for (const unit of UNITS) {
+  [unit.symbol, unit.name, ...unit.aliases].forEach(alias => {
+    const key = normalizeUnitName(alias);
+    if (!unitsByAlias.has(key)) unitsByAlias.set(key, unit);
+  });
+}
+
+export const findUnit = (text: string): Unit | null => {
+  return unitsByAlias.get(normalizeUnitName(text)) || null;
+};
+
+// Mesma precisão usada nos resultados das conversões e dos passos
+export const formatQuantity = (value: number) => {
+  return String(Number(value.toPrecision(10)));
+};
+
+const toBase = (unit: Unit, value: number) => (unit.toBase ? unit.toBase(value) : value * unit.factor!);
+const fromBase = (unit: Unit, value: number) => (unit.fromBase ? unit.fromBase(value) : value / unit.factor!);
+
+export const convertUnits = (value: number, from: Unit, to: Unit): Conversion => {
+  if (from.dimension !== to.dimension) {
+    throw new UnitConversionError(`Não é possível converter ${from.name} (${from.dimension}) em ${to.name} (${to.dimension})`);
+  }
+
+  const base = toBase(from, value);
+  const result = fromBase(to, base);
+  const baseSymbol = BASE_UNITS[from.dimension];
+  const steps: string[] = [];
+
+  if (from.factor !== undefined && to.factor !== undefined) {
+    // Grandezas proporcionais: um único fator entre as duas unidades
+    const ratio = from.factor / to.factor;
+    if (from.symbol !== baseSymbol) steps.push(`1 ${from.symbol} = ${formatQuantity(from.factor)} ${baseSymbol}`);
+    if (to.symbol !== baseSymbol) steps.push(`1 ${to.symbol} = ${formatQuantity(to.factor)} ${baseSymbol}`);
+    if (to.symbol !== baseSymbol) steps.push(`1 ${from.symbol} = ${formatQuantity(ratio)} ${to.symbol}`);
+    steps.push(`${formatQuantity(value)} × ${formatQuantity(ratio)} = ${formatQuantity(result)} ${to.symbol}`);
+  } else {
+    // Temperaturas: passa pela escala kelvin
+    if (from.toBaseFormula) steps.push(from.toBaseFormula);
+    steps.push(`${formatQuantity(value)} ${from.symbol} = ${formatQuantity(base)} K`);
+    if (to.toBaseFormula) steps.push(to.toBaseFormula);
+    steps.push(`${formatQuantity(base)} K = ${formatQuantity(result)} ${to.symbol}`);
+  }
+
+  return { value, from, to, result, steps };
+};
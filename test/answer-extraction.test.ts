@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractAnswer, splitSentences } from '../src/services/answer-extraction.service';
+
+test('splitSentences', () => {
+  const cases: Array<[string, string[]]> = [
+    ['Primeira frase. Segunda frase!', ['Primeira frase.', 'Segunda frase!']],
+    ['O Dr. Silva chegou. Custa 3.5 reais.', ['O Dr. Silva chegou.', 'Custa 3.5 reais.']],
+    ['Linha um\nLinha dois', ['Linha um', 'Linha dois']],
+    ['   ', []]
+  ];
+  for (const [text, expected] of cases) {
+    assert.deepEqual(splitSentences(text).map(({ start, end }) => text.slice(start, end)), expected, text);
+  }
+});
+
+const TEXT = 'O Brasil fica na América do Sul. A capital do Brasil é Brasília. '
+  + 'O país tem 26 estados. O futebol é muito popular.';
+
+test('extractAnswer', () => {
+  const cases: Array<[string, string | null]> = [
+    ['qual a capital?', 'A capital do Brasil é Brasília.'],
+    ['qual a capital do Brasil?', 'O Brasil fica na América do Sul. A capital do Brasil é Brasília.'],
+    ['quantos estados tem o país?', 'O país tem 26 estados.'],
+    // Sem termos em comum não há resposta extraída
+    ['receita de bolo', null],
+    ['', null]
+  ];
+  for (const [question, expected] of cases) {
+    assert.equal(extractAnswer(question, TEXT, { maxSentences: 3 })?.content ?? null, expected, question);
+  }
+});
+
+test('extractAnswer traz offsets e trecho destacado', () => {
+  const answer = extractAnswer('capital', TEXT, { maxSentences: 1, documentOffset: 100 });
+  assert.equal(TEXT.slice(answer!.citation.start, answer!.citation.end), answer!.content);
+  assert.equal(answer!.citation.documentStart, 100 + answer!.citation.start);
+  assert.equal(answer!.citation.snippet, 'A <mark>capital</mark> do Brasil é Brasília.');
+});
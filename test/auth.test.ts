@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import { config } from '../src/config/config';
+import { ApiKeyRole } from '../src/models/ApiKey.model';
+import {
+  assertAuthConfigured,
+  conversationScope,
+  hasRole,
+  resolveApiKey,
+  AuthConfigError,
+  AuthContext
+} from '../src/services/auth.service';
+import { buildKnowledgeFilter, pickEditableFields } from '../src/services/knowledge.service';
+import { authenticate, requireRole } from '../src/middlewares/auth.middleware';
+
+const auth = (role: ApiKeyRole, tenant = 'acme'): AuthContext => ({ tenant, role, keyId: `key-${role}`, master: false });
+
+test('hasRole segue a hierarquia chat < teach < admin', () => {
+  const cases: Array<[ApiKeyRole, ApiKeyRole, boolean]> = [
+    ['chat', 'chat', true],
+    ['chat', 'teach', false],
+    ['chat', 'admin', false],
+    ['teach', 'chat', true],
+    ['teach', 'teach', true],
+    ['teach', 'admin', false],
+    ['admin', 'chat', true],
+    ['admin', 'teach', true],
+    ['admin', 'admin', true]
+  ];
+  for (const [role, required, expected] of cases) {
+    assert.equal(hasRole(auth(role), required), expected, `${role} -> ${required}`);
+  }
+});
+
+test('conversationScope limita chaves de chat às próprias conversas', () => {
+  assert.deepEqual(conversationScope(auth('chat')), { tenant: 'acme', keyId: 'key-chat' });
+  assert.deepEqual(conversationScope(auth('teach')), { tenant: 'acme' });
+  assert.deepEqual(conversationScope(auth('admin', 'other')), { tenant: 'other' });
+});
+
+test('buildKnowledgeFilter fica sempre no tenant da chave', () => {
+  const filter = buildKnowledgeFilter('acme', { type: 'math', tenant: 'other' } as any);
+  assert.equal(filter.tenant, 'acme');
+  assert.equal(filter.type, 'math');
+  assert.equal(pickEditableFields({ tenant: 'other', content: 'x' }).tenant, undefined);
+});
+
+const run = async (middleware: any, req: Partial<Request>) => {
+  const result: { status?: number; next: boolean } = { next: false };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return this;
+    },
+    json() {
+      return this;
+    }
+  } as unknown as Response;
+  await middleware(req, res, () => (result.next = true));
+  return result;
+};
+
+test('requireRole responde 403 abaixo do papel exigido', async () => {
+  const cases: Array<[ApiKeyRole | null, ApiKeyRole, number | undefined]> = [
+    [null, 'chat', 403],
+    ['chat', 'teach', 403],
+    ['teach', 'teach', undefined],
+    ['teach', 'admin', 403],
+    ['admin', 'admin', undefined]
+  ];
+  for (const [role, required, status] of cases) {
+    const result = await run(requireRole(required), { auth: role ? auth(role) : undefined });
+    assert.equal(result.status, status, `${role} -> ${required}`);
+    assert.equal(result.next, status === undefined, `${role} -> ${required}`);
+  }
+});
+
+test('authenticate exige chave quando a autenticação está ligada', async () => {
+  config.auth.enabled = true;
+  const req = { header: () => undefined, query: {} } as unknown as Request;
+  assert.equal((await run(authenticate, req)).status, 401);
+
+  config.auth.enabled = false;
+  const open = { header: () => undefined, query: {} } as unknown as Request;
+  assert.equal((await run(authenticate, open)).next, true);
+  assert.deepEqual(open.auth, { tenant: config.auth.defaultTenant, role: 'admin', master: true });
+  config.auth.enabled = true;
+});
+
+test('a chave mestra administra o tenant padrão', async () => {
+  config.auth.masterKey = 'segredo';
+  assert.deepEqual(await resolveApiKey('segredo'), { tenant: config.auth.defaultTenant, role: 'admin', master: true });
+});
+
+test('assertAuthConfigured exige a chave mestra com a autenticação ligada', () => {
+  config.auth.enabled = true;
+  config.auth.masterKey = '';
+  assert.throws(() => assertAuthConfigured(), AuthConfigError);
+
+  config.auth.masterKey = 'segredo';
+  assert.doesNotThrow(() => assertAuthConfigured());
+
+  config.auth.enabled = false;
+  config.auth.masterKey = '';
+  assert.doesNotThrow(() => assertAuthConfigured());
+});
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { chunkPages, chunkText, PAGE_SEPARATOR } from '../src/services/chunking.service';
+
+const sentences = (count: number, prefix = 'Frase') => {
+  return Array.from({ length: count }, (_, index) => `${prefix} número ${index + 1} do documento de teste.`).join(' ');
+};
+
+test('chunkText respeita o tamanho, os offsets e a sobreposição', () => {
+  const cases: Array<[string, number, number]> = [
+    [sentences(60), 300, 80],
+    [sentences(40) + '\n\n' + sentences(40, 'Linha'), 500, 100],
+    ['palavra '.repeat(400).trim(), 200, 50]
+  ];
+  for (const [text, maxLength, overlap] of cases) {
+    const passages = chunkText(text, { maxLength, overlap });
+    assert.ok(passages.length > 1, `${maxLength}/${overlap}`);
+
+    passages.forEach((passage, index) => {
+      assert.ok(passage.content.length <= maxLength);
+      assert.equal(text.slice(passage.startOffset, passage.endOffset), passage.content);
+      if (index === 0) return;
+
+      const previous = passages[index - 1];
+      // Avança sempre, sem buracos e sem repetir mais que a sobreposição pedida
+      assert.ok(passage.startOffset > previous.startOffset);
+      assert.ok(text.slice(previous.endOffset, passage.startOffset).trim() === '' || passage.startOffset < previous.endOffset);
+      assert.ok(previous.endOffset - passage.startOffset <= overlap);
+    });
+    assert.equal(passages[0].startOffset, 0);
+    assert.equal(passages[passages.length - 1].endOffset, text.trimEnd().length);
+  }
+});
+
+test('chunkText sobrepõe passagens vizinhas quando os segmentos cabem na sobreposição', () => {
+  const passages = chunkText(sentences(30), { maxLength: 300, overlap: 100 });
+  for (let index = 1; index < passages.length; index++) {
+    assert.ok(passages[index].startOffset < passages[index - 1].endOffset, `passagem ${index}`);
+  }
+});
+
+test('chunkText limita a sobreposição à metade da passagem e trata textos curtos', () => {
+  const passages = chunkText(sentences(30), { maxLength: 200, overlap: 1000 });
+  for (let index = 1; index < passages.length; index++) {
+    assert.ok(passages[index - 1].endOffset - passages[index].startOffset <= 100);
+  }
+  assert.deepEqual(chunkText('Curto.'), [{ content: 'Curto.', startOffset: 0, endOffset: 6 }]);
+  assert.deepEqual(chunkText('   '), []);
+});
+
+test('chunkPages numera as páginas e usa offsets do texto concatenado', () => {
+  const pages = [sentences(10), sentences(12, 'Página'), sentences(3)];
+  const text = pages.join(PAGE_SEPARATOR);
+  const passages = chunkPages(pages, { maxLength: 250, overlap: 50 });
+
+  assert.deepEqual(Array.from(new Set(passages.map(passage => passage.page))), [1, 2, 3]);
+  for (const passage of passages) {
+    assert.equal(text.slice(passage.startOffset, passage.endOffset), passage.content);
+  }
+});
@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { IConversationTurn } from '../src/models/Conversation.model';
+import { resolveFollowUp } from '../src/services/context.service';
+
+const turns = (...questions: string[]): IConversationTurn[] => {
+  return questions.map(content => ({ role: 'user', content, timestamp: new Date() }));
+};
+
+test('resolveFollowUp', () => {
+  const cases: Array<[string, string[], string]> = [
+    ['e de Portugal?', ['qual a capital do Brasil?'], 'qual a capital de Portugal?'],
+    ['e o Japão?', ['qual a capital do Brasil?'], 'qual a capital do Japão?'],
+    ['e na França?', ['como está o clima no Brasil?'], 'como está o clima na França?'],
+    ['qual a população dele?', ['fale sobre o Brasil'], 'qual a população de Brasil?'],
+    ['e de Portugal?', [], 'e de Portugal?'],
+    ['aprenda que ele é grande', ['qual a capital do Brasil?'], 'aprenda que ele é grande'],
+    ['olá', ['qual a capital do Brasil?'], 'olá']
+  ];
+  for (const [message, history, expected] of cases) {
+    assert.equal(resolveFollowUp(message, turns(...history)), expected, message);
+  }
+});
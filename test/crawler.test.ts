@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isAllowedByRobots, parseCrawlOptions, parseRobots, CrawlOptionsError } from '../src/services/crawler.service';
+
+const ROBOTS = `
+# Regras gerais
+User-agent: *
+Disallow: /privado/
+Allow: /privado/publico
+Disallow: /*.pdf$
+Disallow: /busca?
+
+User-agent: CordovaBot
+User-agent: OutroBot
+Disallow: /admin
+Allow: /admin/ajuda
+
+User-agent: MalBot
+Disallow: /
+
+Sitemap: https://exemplo.com/sitemap.xml
+`;
+
+test('parseRobots usa o grupo do nosso user-agent', () => {
+  const policy = parseRobots(ROBOTS, 'CordovaBot/1.0');
+  assert.deepEqual(policy.sitemaps, ['https://exemplo.com/sitemap.xml']);
+
+  const cases: Array<[string, boolean]> = [
+    ['https://exemplo.com/', true],
+    ['https://exemplo.com/admin', false],
+    ['https://exemplo.com/admin/usuarios', false],
+    ['https://exemplo.com/admin/ajuda', true],
+    // As regras do grupo "*" não valem quando há um grupo específico
+    ['https://exemplo.com/privado/x', true]
+  ];
+  for (const [url, expected] of cases) {
+    assert.equal(isAllowedByRobots(policy, url), expected, url);
+  }
+});
+
+test('parseRobots cai no grupo "*" sem grupo específico', () => {
+  const policy = parseRobots(ROBOTS, 'Desconhecido/2.0');
+  const cases: Array<[string, boolean]> = [
+    ['https://exemplo.com/privado/x', false],
+    ['https://exemplo.com/privado/publico/y', true],
+    ['https://exemplo.com/docs/manual.pdf', false],
+    ['https://exemplo.com/docs/manual.pdf?v=2', true],
+    ['https://exemplo.com/busca?q=teste', false],
+    ['https://exemplo.com/buscar', true],
+    ['https://exemplo.com/admin', true]
+  ];
+  for (const [url, expected] of cases) {
+    assert.equal(isAllowedByRobots(policy, url), expected, url);
+  }
+});
+
+test('parseRobots: Disallow vazio libera tudo e robots vazio não proíbe nada', () => {
+  assert.equal(isAllowedByRobots(parseRobots('User-agent: *\nDisallow:', 'CordovaBot'), 'https://a.com/x'), true);
+  assert.equal(isAllowedByRobots(parseRobots('', 'CordovaBot'), 'https://a.com/x'), true);
+  assert.equal(isAllowedByRobots(parseRobots(ROBOTS, 'MalBot'), 'https://a.com/x'), false);
+});
+
+test('parseCrawlOptions valida limites e padrões', () => {
+  const options = parseCrawlOptions({ maxDepth: 1, include: '^https://a\\.com/' });
+  assert.equal(options.maxDepth, 1);
+  assert.deepEqual(options.include, ['^https://a\\.com/']);
+  assert.equal(options.sameOrigin, true);
+  assert.equal(options.render, false);
+
+  for (const input of [{ maxDepth: -1 }, { maxDepth: 1.5 }, { maxPages: 100000 }, { exclude: ['(\\w|\\d)+$'] }]) {
+    assert.throws(() => parseCrawlOptions(input), CrawlOptionsError, JSON.stringify(input));
+  }
+});
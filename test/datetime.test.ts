@@ -0,0 +1,30 @@
+import { before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../src/config/config';
+import { answerDateQuestion, fixedClock, setClock } from '../src/services/datetime.service';
+
+// Domingo, 18/10/2026, 12:00 em São Paulo
+before(() => {
+  config.datetime.timezone = 'America/Sao_Paulo';
+  setClock(fixedClock('2026-10-18T15:00:00Z'));
+});
+
+test('answerDateQuestion', () => {
+  const cases: Array<[string, string | null, string[]]> = [
+    ['que dia é hoje?', 'today', ['2026-10-18']],
+    ['que horas são?', 'time', ['2026-10-18']],
+    ['que dia da semana foi 7/9/1822?', 'weekday', ['1822-09-07']],
+    ['que dia da semana foi 07.09.1822?', 'weekday', ['1822-09-07']],
+    ['quantos dias faltam para o Natal?', 'difference', ['2026-12-25']],
+    ['que dia será daqui a 3 semanas?', 'offset', ['2026-11-08']],
+    ['que dia foi há 2 dias?', 'offset', ['2026-10-16']],
+    ['que dia da semana foi 31/2/2020?', 'invalid', []],
+    ['quanto é 3.5 + 1.25?', null, []],
+    ['qual a capital do Brasil?', null, []]
+  ];
+  for (const [message, kind, dates] of cases) {
+    const answer = answerDateQuestion(message);
+    assert.equal(answer?.kind ?? null, kind, message);
+    assert.deepEqual(answer?.dates ?? [], dates, message);
+  }
+});
@@ -0,0 +1,61 @@
+import { afterEach, test, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../src/config/config';
+import { Knowledge } from '../src/models/Knowledge.model';
+import { hashContent, minhash, minhashBands, similarity } from '../src/services/fingerprint.service';
+import { findDuplicate, partitionDuplicates } from '../src/services/dedup.service';
+import { useMemoryStore } from './memory-store';
+
+const BASE = 'A capital do Brasil é Brasília, cidade planejada por Lúcio Costa e Oscar Niemeyer e inaugurada em 1960 '
+  + 'pelo presidente Juscelino Kubitschek no Planalto Central, longe do litoral onde ficavam as capitais anteriores';
+const NEAR = BASE.replace('anteriores', 'antigas');
+const OTHER = 'O Rio Amazonas é o maior rio do mundo em volume de água e atravessa o Peru, a Colômbia e o Brasil';
+
+afterEach(() => mock.restoreAll());
+
+test('hashContent ignora caixa, acentos, pontuação e espaços, mas não operadores', () => {
+  const cases: Array<[string, string, boolean]> = [
+    ['A capital é Brasília.', 'a  CAPITAL e brasilia', true],
+    ['2 + 2 = 4', '2+2=4', true],
+    ['2 + 2 = 4', '2 * 2 = 4', false],
+    ['Brasil', 'Brasília', false]
+  ];
+  for (const [a, b, equal] of cases) {
+    assert.equal(hashContent(a) === hashContent(b), equal, `${a} / ${b}`);
+  }
+});
+
+test('minhash estima a similaridade de textos', () => {
+  const base = minhash(BASE)!;
+  assert.ok(similarity(base, minhash(BASE)!) === 1);
+  assert.ok(similarity(base, minhash(NEAR)!) >= config.dedup.nearThreshold);
+  assert.ok(similarity(base, minhash(OTHER)!) < 0.2);
+  // Quase-duplicatas compartilham ao menos uma faixa, o que as torna candidatas na busca
+  assert.ok(minhashBands(base).some(band => minhashBands(minhash(NEAR)!).includes(band)));
+  // Textos curtos só são comparados por igualdade
+  assert.equal(minhash('Brasília é a capital'), null);
+});
+
+test('findDuplicate encontra cópias exatas e quase-duplicatas no tenant', async () => {
+  useMemoryStore();
+  await Knowledge.create({ tenant: 'acme', content: BASE, source: 'user_teaching' });
+
+  const cases: Array<[string, string, string | null]> = [
+    ['acme', BASE.toUpperCase(), 'exact'],
+    ['acme', NEAR, 'near'],
+    ['acme', OTHER, null],
+    ['outro', BASE, null]
+  ];
+  for (const [tenant, content, type] of cases) {
+    assert.equal((await findDuplicate(tenant, content))?.type ?? null, type, `${tenant}: ${content}`);
+  }
+});
+
+test('partitionDuplicates também encontra duplicatas dentro do próprio lote', async () => {
+  useMemoryStore();
+  const items = [{ content: BASE }, { content: `${BASE}.` }, { content: NEAR }, { content: OTHER }];
+  const { unique, duplicates } = await partitionDuplicates('acme', items);
+
+  assert.deepEqual(unique, [items[0], items[3]]);
+  assert.deepEqual(duplicates, [{ item: items[1], type: 'exact' }, { item: items[2], type: 'near' }]);
+});
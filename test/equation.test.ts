@@ -0,0 +1,36 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { extractEquation, solveEquation } from '../src/services/equation.service';
+import { ExpressionError } from '../src/services/expression.service';
+
+test('extractEquation', () => {
+  const cases: Array<[string, string | null]> = [
+    ['resolva 2x + 3 = 7', '2x + 3 = 7'],
+    ['x² - 5x + 6 = 0', 'x² - 5x + 6 = 0'],
+    ['2 + 2 = 4', null],
+    ['aprenda que a casa = lar', null]
+  ];
+  for (const [text, expected] of cases) {
+    assert.equal(extractEquation(text)?.equation ?? null, expected, text);
+  }
+});
+
+test('solveEquation', () => {
+  const cases: Array<[string, string, number[] | null]> = [
+    ['2x + 3', '7', [2]],
+    ['3(x + 1)', '12', [3]],
+    ['x² - 5x + 6', '0', [3, 2]],
+    ['x^2 - 4x + 4', '0', [2]],
+    ['x² + 1', '0', []],
+    ['x + 1', 'x + 1', null],
+    ['x + 1', 'x + 2', []]
+  ];
+  for (const [left, right, expected] of cases) {
+    assert.deepEqual(solveEquation(left, right, 'x').solutions, expected, `${left} = ${right}`);
+  }
+});
+
+test('solveEquation rejeita grau maior que 2 e divisão pela incógnita', () => {
+  assert.throws(() => solveEquation('x^3', '8', 'x'), ExpressionError);
+  assert.throws(() => solveEquation('1 / x', '2', 'x'), ExpressionError);
+});
@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateExpression, extractExpression, formatResult, ExpressionError } from '../src/services/expression.service';
+
+test('evaluateExpression', () => {
+  const cases: Array<[string, number]> = [
+    ['2 + 2', 4],
+    ['2 + 3 * 4', 14],
+    ['(2 + 3) * 4', 20],
+    ['2 ^ 10', 1024],
+    ['-3 + 5', 2],
+    ['10 / 4', 2.5],
+    ['1,5 + 1', 2.5]
+  ];
+  for (const [expression, expected] of cases) {
+    assert.equal(evaluateExpression(expression), expected, expression);
+  }
+});
+
+test('evaluateExpression rejeita expressões inválidas', () => {
+  for (const expression of ['', '2 +', '(2 + 3', '1 / 0']) {
+    assert.throws(() => evaluateExpression(expression), ExpressionError, expression);
+  }
+});
+
+test('formatResult remove ruído de ponto flutuante', () => {
+  assert.equal(formatResult(0.1 + 0.2), '0.3');
+});
+
+test('extractExpression', () => {
+  const cases: Array<[string, string | null]> = [
+    ['quanto é 2 + 3 * 4?', '2 + 3 * 4'],
+    ['calcule (1 + 2) * 3', '(1 + 2) * 3'],
+    ['qual a capital do Brasil?', null],
+    ['tenho 3 gatos', null]
+  ];
+  for (const [text, expected] of cases) {
+    assert.equal(extractExpression(text), expected, text);
+  }
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../src/config/config';
+import { checkUrl, isBlockedAddress, FetchError, FetchErrorCode } from '../src/services/fetch.service';
+
+test('isBlockedAddress', () => {
+  const cases: Array<[string, boolean]> = [
+    ['127.0.0.1', true],
+    ['10.1.2.3', true],
+    ['172.16.0.1', true],
+    ['172.32.0.1', false],
+    ['192.168.1.1', true],
+    ['169.254.169.254', true],
+    ['100.64.0.1', true],
+    ['0.0.0.0', true],
+    ['224.0.0.1', true],
+    ['::1', true],
+    ['::', true],
+    ['fc00::1', true],
+    ['fe80::1', true],
+    ['::ffff:10.0.0.1', true],
+    ['::ffff:a00:1', true],
+    ['::ffff:8.8.8.8', false],
+    ['8.8.8.8', false],
+    ['2606:4700:4700::1111', false],
+    ['não é ip', true]
+  ];
+  for (const [address, expected] of cases) {
+    assert.equal(isBlockedAddress(address), expected, address);
+  }
+});
+
+const rejects = async (url: string, code: FetchErrorCode) => {
+  await assert.rejects(checkUrl(url), (error: unknown) => error instanceof FetchError && error.code === code, url);
+};
+
+// Só hosts que são IPs literais, para não depender de DNS
+test('checkUrl recusa protocolos, hosts e endereços internos', async () => {
+  const cases: Array<[string, FetchErrorCode]> = [
+    ['não é url', 'invalid_url'],
+    ['ftp://8.8.8.8/arquivo', 'invalid_url'],
+    ['file:///etc/passwd', 'invalid_url'],
+    ['http://localhost/', 'blocked'],
+    ['http://api.localhost/', 'blocked'],
+    ['http://metadata.google.internal/', 'blocked'],
+    ['http://127.0.0.1:3001/', 'blocked'],
+    ['http://2130706433/', 'blocked'],
+    ['http://0x7f.1/', 'blocked'],
+    ['http://169.254.169.254/latest/meta-data', 'blocked'],
+    ['http://[::1]/', 'blocked'],
+    ['http://[::ffff:10.0.0.1]/', 'blocked']
+  ];
+  for (const [url, code] of cases) {
+    await rejects(url, code);
+  }
+  assert.equal((await checkUrl('https://8.8.8.8/x')).href, 'https://8.8.8.8/x');
+});
+
+test('checkUrl respeita a lista de domínios e a liberação de redes privadas', async () => {
+  config.fetch.allowedDomains = ['exemplo.com'];
+  await rejects('https://outro.com/', 'not_allowed');
+  await rejects('https://exemplo.com.outro.com/', 'not_allowed');
+  config.fetch.allowedDomains = [];
+
+  config.fetch.allowPrivateNetworks = true;
+  assert.equal((await checkUrl('http://127.0.0.1/')).hostname, '127.0.0.1');
+  config.fetch.allowPrivateNetworks = false;
+});
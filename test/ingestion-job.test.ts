@@ -0,0 +1,29 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isRetryableError } from '../src/services/ingestion-job.service';
+import { FetchError } from '../src/services/fetch.service';
+import { CrawlOptionsError } from '../src/services/crawler.service';
+
+const systemError = (code: string) => Object.assign(new Error(code), { code });
+const namedError = (name: string) => Object.assign(new Error(name), { name });
+
+test('isRetryableError só repete falhas transitórias', () => {
+  const cases: Array<[string, unknown, boolean]> = [
+    ['tempo esgotado', new FetchError('timeout', 'x'), true],
+    ['status 503', new FetchError('status', 'x', 503), true],
+    ['status 429', new FetchError('status', 'x', 429), true],
+    ['status 404', new FetchError('status', 'x', 404), false],
+    ['host bloqueado', new FetchError('blocked', 'x'), false],
+    ['formato não suportado', new FetchError('unsupported', 'x'), false],
+    ['conteúdo grande demais', new FetchError('too_large', 'x'), false],
+    ['conexão reiniciada', systemError('ECONNRESET'), true],
+    ['DNS temporário', systemError('EAI_AGAIN'), true],
+    ['banco fora do ar', namedError('MongoNetworkError'), true],
+    ['PDF ilegível', new Error('Invalid PDF structure'), false],
+    ['opções de rastreamento', new CrawlOptionsError('maxDepth inválido'), false],
+    ['erro de programação', new TypeError('x is undefined'), false]
+  ];
+  for (const [name, error, expected] of cases) {
+    assert.equal(isRetryableError(error), expected, name);
+  }
+});
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Knowledge } from '../src/models/Knowledge.model';
+import {
+  importKnowledge,
+  parseImportBody,
+  toExportRecord,
+  ImportStrategy
+} from '../src/services/knowledge-transfer.service';
+import { useMemoryStore } from './memory-store';
+
+const TENANT = 'acme';
+const revision = { actor: 'key:1', origin: 'import' as const };
+
+let store: ReturnType<typeof useMemoryStore>;
+
+beforeEach(() => {
+  store = useMemoryStore();
+});
+afterEach(() => mock.restoreAll());
+
+test('parseImportBody lê NDJSON, arrays e { records }', () => {
+  assert.deepEqual(parseImportBody('{"content":"a"}\n\n  \nnão é json\r\n{"content":"b"}'), [
+    { line: 1, record: { content: 'a' } },
+    { line: 4, error: 'JSON inválido' },
+    { line: 5, record: { content: 'b' } }
+  ]);
+  assert.deepEqual(parseImportBody([{ content: 'a' }]), [{ line: 1, record: { content: 'a' } }]);
+  assert.deepEqual(parseImportBody({ records: [{ content: 'a' }] }), [{ line: 1, record: { content: 'a' } }]);
+  assert.equal(parseImportBody({ content: 'a' }), null);
+});
+
+test('toExportRecord não leva identificadores nem dados derivados', () => {
+  const record = toExportRecord({ _id: 'x', tenant: 'acme', contentHash: 'h', content: 'a', source: 's', url: null });
+  assert.deepEqual(record, { content: 'a', source: 's' });
+});
+
+const OLD = new Date('2020-01-01');
+const NEW = new Date('2025-01-01');
+
+const seed = async () => {
+  await Knowledge.create({ tenant: TENANT, content: 'Brasília é a capital do Brasil', source: 'antigo', path: 'geografia', timestamp: NEW });
+  await Knowledge.create({ tenant: TENANT, content: 'Paris é a capital da França', source: 'antigo', path: 'geografia', timestamp: OLD });
+};
+
+const RECORDS = parseImportBody([
+  { content: 'BRASÍLIA é a capital do Brasil!', source: 'importado', path: 'geografia', timestamp: OLD.toISOString() },
+  { content: 'Paris é a capital da França', source: 'importado', path: 'geografia', timestamp: NEW.toISOString() },
+  { content: 'Lisboa é a capital de Portugal', source: 'importado', path: 'geografia' },
+  { content: 'Lisboa é a capital de Portugal.', source: 'repetido', path: 'geografia' },
+  { content: 'Sem campos conhecidos', tenant: 'outro' },
+  'texto solto'
+])!;
+
+const sources = () => Array.from(store.knowledge.values()).map(doc => `${doc.content} <${doc.source}>`).sort();
+
+test('importKnowledge aplica cada estratégia aos conflitos de conteúdo', async () => {
+  const cases: Array<[ImportStrategy, { created: number; updated: number; skipped: number }, string[]]> = [
+    ['skip', { created: 1, updated: 0, skipped: 3 }, [
+      'Brasília é a capital do Brasil <antigo>',
+      'Lisboa é a capital de Portugal <importado>',
+      'Paris é a capital da França <antigo>'
+    ]],
+    ['overwrite', { created: 1, updated: 3, skipped: 0 }, [
+      'BRASÍLIA é a capital do Brasil! <importado>',
+      'Lisboa é a capital de Portugal. <repetido>',
+      'Paris é a capital da França <importado>'
+    ]],
+    ['keep-newest', { created: 1, updated: 1, skipped: 2 }, [
+      'Brasília é a capital do Brasil <antigo>',
+      'Lisboa é a capital de Portugal <importado>',
+      'Paris é a capital da França <importado>'
+    ]]
+  ];
+
+  for (const [strategy, counts, expected] of cases) {
+    store.knowledge.clear();
+    await seed();
+    const result = await importKnowledge(TENANT, RECORDS, { strategy, dryRun: false, revision });
+
+    assert.deepEqual({ created: result.created, updated: result.updated, skipped: result.skipped }, counts, strategy);
+    assert.equal(result.failed, 2, strategy);
+    assert.deepEqual(result.errors.map(error => error.line), [5, 6], strategy);
+    assert.deepEqual(sources(), expected, strategy);
+    assert.ok(result.batchId, strategy);
+  }
+});
+
+test('importKnowledge em dry run conta o mesmo e não grava nada', async () => {
+  for (const strategy of ['skip', 'overwrite', 'keep-newest'] as ImportStrategy[]) {
+    store.knowledge.clear();
+    await seed();
+    const applied = await importKnowledge(TENANT, RECORDS, { strategy, dryRun: false, revision });
+
+    store.knowledge.clear();
+    store.revisions.length = 0;
+    await seed();
+    const before = sources();
+    const dryRun = await importKnowledge(TENANT, RECORDS, { strategy, dryRun: true, revision });
+
+    assert.deepEqual(
+      { ...dryRun, dryRun: true, batchId: undefined },
+      { ...applied, dryRun: true, batchId: undefined },
+      strategy
+    );
+    assert.equal(dryRun.batchId, undefined);
+    assert.deepEqual(sources(), before, strategy);
+    assert.equal(store.revisions.length, 0, strategy);
+  }
+});
@@ -0,0 +1,20 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { answerMathQuestion } from '../src/services/math.service';
+
+test('answerMathQuestion', () => {
+  const cases: Array<[string, string | null, string | null]> = [
+    ['quanto é 5 km em milhas?', 'conversion', '5 km = 3.106855961 mi'],
+    ['quantos segundos tem uma hora?', 'conversion', '1 h = 3600 s'],
+    ['20% de 350', 'percentage', '20% de 350 = 70'],
+    ['30 é quantos por cento de 120?', 'percentage', '30 é 25% de 120'],
+    ['resolva 2x + 3 = 7', 'equation', 'x = 2'],
+    ['2 + 2 = 4', null, null],
+    ['o trem anda 5 km em 2 horas', null, null]
+  ];
+  for (const [message, kind, headline] of cases) {
+    const answer = answerMathQuestion(message);
+    assert.equal(answer?.kind ?? null, kind, message);
+    assert.equal(answer ? answer.content.split('\n')[0] : null, headline, message);
+  }
+});
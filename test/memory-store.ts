@@ -0,0 +1,73 @@
+import { mock } from 'node:test';
+import { Types } from 'mongoose';
+import { Knowledge } from '../src/models/Knowledge.model';
+import { KnowledgeRevision } from '../src/models/KnowledgeRevision.model';
+import { SourceDocument } from '../src/models/SourceDocument.model';
+import { fingerprint } from '../src/services/fingerprint.service';
+
+// Conhecimentos e revisões em memória no lugar do Mongo, com as consultas usadas
+// pelos serviços testados. Os filtros comparam apenas igualdade de campos; os
+// operadores ($or, $in...) são ignorados e os serviços filtram o resto.
+
+const matches = (doc: any, filter: Record<string, unknown>) => {
+  return Object.entries(filter)
+    .filter(([field]) => !field.startsWith('$'))
+    .every(([field, value]) => {
+      const current = typeof doc.get === 'function' ? doc.get(field) : doc[field];
+      return typeof value === 'object' && value !== null && !(value instanceof Types.ObjectId)
+        ? true
+        : String(current) === String(value);
+    });
+};
+
+const withFingerprint = (doc: any) => {
+  if (doc.isModified('content') || !doc.contentHash) {
+    doc.set({ minhash: undefined, minhashBands: undefined, ...fingerprint(doc.content) });
+  }
+  return doc;
+};
+
+export const useMemoryStore = () => {
+  const knowledge = new Map<string, any>();
+  const revisions: any[] = [];
+  const find = (filter: Record<string, unknown>) => Array.from(knowledge.values()).filter(doc => matches(doc, filter));
+
+  mock.method(Knowledge, 'findOne', async (filter: Record<string, unknown>) => find(filter)[0] || null);
+  mock.method(Knowledge, 'find', (filter: Record<string, unknown>) => {
+    const docs = find(filter);
+    const query = { select: () => query, sort: () => query, lean: async () => docs.map(doc => doc.toObject()) };
+    return query;
+  });
+  mock.method(Knowledge, 'exists', async (filter: Record<string, unknown>) => find(filter).length > 0 || null);
+  mock.method(Knowledge, 'create', async (data: Record<string, unknown>) => {
+    const doc = withFingerprint(new Knowledge(data));
+    knowledge.set(String(doc._id), doc);
+    return doc;
+  });
+  mock.method(Knowledge, 'findOneAndDelete', async (filter: Record<string, unknown>) => {
+    const [doc] = find(filter);
+    if (doc) knowledge.delete(String(doc._id));
+    return doc || null;
+  });
+  mock.method(Knowledge.prototype, 'save', async function (this: any) {
+    knowledge.set(String(this._id), withFingerprint(this));
+    return this;
+  });
+
+  const addRevision = (data: any) => {
+    const revision = new KnowledgeRevision(data);
+    revisions.push(revision);
+    return revision;
+  };
+  mock.method(KnowledgeRevision, 'insertMany', async (docs: any[]) => docs.map(addRevision));
+  mock.method(KnowledgeRevision, 'create', async (data: any) => addRevision(data));
+  mock.method(KnowledgeRevision, 'findOne', async (filter: Record<string, unknown>) => {
+    return revisions.find(revision => matches(revision, filter)) || null;
+  });
+  mock.method(KnowledgeRevision, 'find', (filter: Record<string, unknown>) => ({
+    sort: async () => revisions.filter(revision => matches(revision, filter))
+  }));
+  mock.method(SourceDocument, 'deleteOne', async () => ({ deletedCount: 0 }));
+
+  return { knowledge, revisions };
+};
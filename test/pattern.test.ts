@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PatternError, validatePattern } from '../src/services/pattern.service';
+
+test('validatePattern aceita padrões seguros', () => {
+  const patterns = [
+    '^(oi|olá)\\b',
+    '(foo|bar)+',
+    '(\\w|-)+$',
+    '([a-z]|[0-9])+$',
+    '(?:\\bfoo|bar)*',
+    '^\\d{3}-\\d{4}$',
+    '(https?|ftp)://\\S+',
+    '(é|ã)+'
+  ];
+  for (const pattern of patterns) {
+    assert.equal(validatePattern(pattern), pattern, pattern);
+  }
+});
+
+test('validatePattern rejeita padrões com backtracking catastrófico', () => {
+  const patterns = [
+    '(a+)+$',
+    '(\\d*)*x',
+    '(a|a)*$',
+    '(a|ab)*c',
+    '(\\w|\\d)+$',
+    '([a-z]|[a-c])+$',
+    '(.|\\s)*$',
+    '(?:x?|y)+$',
+    '((a|b)|[ab])+$',
+    '(\\bfoo|f)+$'
+  ];
+  for (const pattern of patterns) {
+    assert.throws(() => validatePattern(pattern), PatternError, pattern);
+  }
+});
+
+test('validatePattern rejeita padrões inválidos', () => {
+  for (const pattern of ['', '   ', '(abc', 'a)', 'x'.repeat(501), 42]) {
+    assert.throws(() => validatePattern(pattern), PatternError, String(pattern));
+  }
+});
+
+test('padrões aceitos rodam rápido em textos longos', () => {
+  const text = '1'.repeat(10000) + '!';
+  for (const pattern of ['(\\w|-)+$', '([a-z]|[0-9])+$']) {
+    const started = Date.now();
+    new RegExp(validatePattern(pattern), 'i').test(text);
+    assert.ok(Date.now() - started < 1000, pattern);
+  }
+});
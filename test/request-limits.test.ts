@@ -0,0 +1,97 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, RequestHandler, Response } from 'express';
+
+// Valores fora do intervalo precisam estar no ambiente antes de a configuração ser lida
+process.env.RATE_LIMIT_CHAT_WINDOW = '0';
+process.env.STREAM_HEARTBEAT_INTERVAL = '-5';
+process.env.RETRIEVAL_EMBEDDING_DIMENSIONS = '0';
+process.env.RETRIEVAL_BM25_WEIGHT = '1.5';
+process.env.CONVERSATION_HISTORY_TURNS = '0';
+process.env.STREAM_CHUNK_DELAY = '0';
+process.env.JOBS_POLL_INTERVAL = 'rápido';
+
+const { config } = require('../src/config/config');
+const { rateLimit } = require('../src/middlewares/rate-limit.middleware');
+const { validate } = require('../src/middlewares/validate.middleware');
+const { chatSchemas } = require('../src/schemas/chat.schema');
+const { conversationSchemas } = require('../src/schemas/conversation.schema');
+
+test('configurações numéricas fora do intervalo usam o padrão', () => {
+  const cases: Array<[number, number]> = [
+    [config.rateLimit.chat.windowMs, 60 * 1000],
+    [config.stream.heartbeatInterval, 15000],
+    [config.retrieval.embeddingDimensions, 256],
+    [config.retrieval.bm25Weight, 0.6],
+    [config.jobs.pollInterval, 2000],
+    // 0 continua valendo onde faz sentido
+    [config.conversation.historyTurns, 0],
+    [config.stream.chunkDelay, 0]
+  ];
+  cases.forEach(([actual, expected], index) => assert.equal(actual, expected, `caso ${index}`));
+});
+
+interface Result {
+  status?: number;
+  body?: any;
+  headers: Record<string, unknown>;
+  next: boolean;
+}
+
+const run = (middleware: RequestHandler, req: Partial<Request>): Result => {
+  const result: Result = { headers: {}, next: false };
+  const res = {
+    status(code: number) {
+      result.status = code;
+      return this;
+    },
+    json(body: unknown) {
+      result.body = body;
+      return this;
+    },
+    setHeader(name: string, value: unknown) {
+      result.headers[name] = value;
+    }
+  } as unknown as Response;
+  middleware(req as Request, res, () => (result.next = true));
+  return result;
+};
+
+test('rateLimit conta por chave de API ou IP e responde 429 acima do limite', () => {
+  const limiter = rateLimit('teste', { windowMs: 60000, max: 2 });
+  const fromKey = { auth: { tenant: 'acme', role: 'chat', keyId: 'k1', master: false }, ip: '10.0.0.1' } as any;
+  const fromIp = { ip: '10.0.0.1' } as any;
+
+  assert.equal(run(limiter, fromKey).next, true);
+  assert.equal(run(limiter, fromKey).headers['X-RateLimit-Remaining'], 0);
+  const blocked = run(limiter, fromKey);
+  assert.equal(blocked.status, 429);
+  assert.equal(blocked.next, false);
+  assert.ok(Number(blocked.headers['Retry-After']) > 0);
+
+  // O IP tem contador próprio
+  assert.equal(run(limiter, fromIp).next, true);
+
+  config.rateLimit.enabled = false;
+  assert.equal(run(limiter, fromKey).next, true);
+  config.rateLimit.enabled = true;
+});
+
+test('validate rejeita corpo e query inválidos e converte os valores', () => {
+  const cases: Array<[RequestHandler, Partial<Request>, number | undefined]> = [
+    [validate(chatSchemas.post), { body: { message: 'oi' }, query: {} }, undefined],
+    [validate(chatSchemas.post), { body: { message: '   ' }, query: {} }, 400],
+    [validate(chatSchemas.post), { body: { message: 'oi', sessionId: 'x' }, query: {} }, 400],
+    [validate(chatSchemas.post), { body: {}, query: { debug: 'talvez' } }, 400],
+    [validate(conversationSchemas.list), { query: { page: '2', limit: '10' } }, undefined],
+    [validate(conversationSchemas.list), { query: { page: '0' } }, 400],
+    [validate(conversationSchemas.list), { query: { limit: '1000' } }, 400]
+  ];
+  cases.forEach(([middleware, req, status], index) => {
+    assert.equal(run(middleware, req).status, status, `caso ${index}`);
+  });
+
+  const req = { query: { page: '3', extra: 'x' } } as unknown as Request;
+  run(validate(conversationSchemas.list), req);
+  assert.deepEqual(req.query, { page: 3, limit: 20 });
+});
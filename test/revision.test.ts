@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Knowledge } from '../src/models/Knowledge.model';
+import {
+  recordCreated,
+  recordDeleted,
+  recordUpdated,
+  rollbackBatch,
+  rollbackEntry,
+  toSnapshot,
+  RevisionContext
+} from '../src/services/revision.service';
+import { useMemoryStore } from './memory-store';
+
+const TENANT = 'acme';
+const context = (batchId: string): RevisionContext => ({ actor: 'key:1', origin: 'api', batchId });
+
+let store: ReturnType<typeof useMemoryStore>;
+
+beforeEach(() => {
+  store = useMemoryStore();
+});
+afterEach(() => mock.restoreAll());
+
+const create = async (content: string, batchId: string) => {
+  const doc = await Knowledge.create({ tenant: TENANT, content, source: 'user_teaching', type: 'general' });
+  await recordCreated(TENANT, [doc], context(batchId));
+  return doc;
+};
+
+const update = async (doc: any, changes: Record<string, unknown>, batchId: string) => {
+  const before = toSnapshot(doc);
+  doc.set(changes);
+  await doc.save();
+  await recordUpdated(TENANT, before, doc, context(batchId));
+};
+
+const remove = async (doc: any, batchId: string) => {
+  await Knowledge.findOneAndDelete({ _id: doc._id, tenant: TENANT });
+  await recordDeleted(TENANT, [doc], context(batchId));
+};
+
+const contentOf = (doc: any) => store.knowledge.get(String(doc._id))?.content ?? null;
+
+test('rollbackBatch devolve cada entrada ao estado anterior ao lote', async () => {
+  const edited = await create('Brasília é a capital do Brasil', 'seed');
+  const removed = await create('Paris é a capital da França', 'seed');
+
+  await update(edited, { content: 'Rio de Janeiro é a capital do Brasil', confidence: 0.2 }, 'lote');
+  await update(edited, { content: 'Salvador é a capital do Brasil' }, 'lote');
+  await remove(removed, 'lote');
+  const added = await create('Lisboa é a capital da Espanha', 'lote');
+
+  const summary = await rollbackBatch(TENANT, 'lote', context('rollback'));
+  assert.deepEqual(
+    { updated: summary.updated, restored: summary.restored, deleted: summary.deleted, unchanged: summary.unchanged },
+    { updated: 1, restored: 1, deleted: 1, unchanged: 0 }
+  );
+
+  assert.equal(contentOf(edited), 'Brasília é a capital do Brasil');
+  // O campo que não existia antes do lote volta a não existir
+  assert.equal(store.knowledge.get(String(edited._id)).confidence, undefined);
+  assert.equal(contentOf(removed), 'Paris é a capital da França');
+  assert.equal(contentOf(added), null);
+
+  // A reversão também entra no histórico, num lote próprio
+  assert.ok(store.revisions.some(revision => revision.batchId === summary.batchId));
+  assert.equal(await rollbackBatch(TENANT, 'inexistente', context('rollback')), null);
+});
+
+test('rollbackEntry leva a entrada ao estado de uma revisão', async () => {
+  const doc = await create('Versão 1 do texto', 'a');
+  await update(doc, { content: 'Versão 2 do texto' }, 'b');
+  await remove(doc, 'c');
+
+  const [created, updated, deleted] = store.revisions;
+  const cases: Array<[any, string, string | null]> = [
+    [created, 'restored', 'Versão 1 do texto'],
+    [updated, 'updated', 'Versão 2 do texto'],
+    [deleted, 'deleted', null]
+  ];
+  for (const [revision, result, content] of cases) {
+    const rollback = await rollbackEntry(TENANT, String(doc._id), String(revision._id), context('rollback'));
+    assert.equal(rollback.result, result);
+    assert.equal(contentOf(doc), content);
+  }
+
+  // Revisões de outro tenant não servem
+  assert.equal(await rollbackEntry('outro', String(doc._id), String(created._id), context('rollback')), null);
+});
@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { convertUnits, findUnit, formatQuantity, UnitConversionError } from '../src/services/unit-conversion.service';
+
+const convert = (value: number, from: string, to: string) => {
+  return formatQuantity(convertUnits(value, findUnit(from)!, findUnit(to)!).result);
+};
+
+test('convertUnits', () => {
+  const cases: Array<[number, string, string, string]> = [
+    [5, 'km', 'm', '5000'],
+    [1, 'milha', 'km', '1.609344'],
+    [100, '°C', 'fahrenheit', '212'],
+    [32, 'graus Fahrenheit', 'celsius', '0'],
+    [1, 'hora', 'segundos', '3600'],
+    [2, 'litros', 'ml', '2000'],
+    [1, 'KiB', 'bytes', '1024']
+  ];
+  for (const [value, from, to, expected] of cases) {
+    assert.equal(convert(value, from, to), expected, `${value} ${from} em ${to}`);
+  }
+});
+
+test('findUnit ignora unidades desconhecidas', () => {
+  assert.equal(findUnit('banana'), null);
+});
+
+test('convertUnits rejeita grandezas diferentes', () => {
+  assert.throws(() => convertUnits(1, findUnit('km')!, findUnit('kg')!), UnitConversionError);
+});